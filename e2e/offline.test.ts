@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import puppeteer, { Browser } from "puppeteer";
+import { PreviewServer, preview } from "vite";
+
+// Runs against the production build in dist/, since the service worker only
+// exists there. `yarn test:offline` builds first.
+
+let server: PreviewServer;
+let browser: Browser;
+
+before(async () => {
+  server = await preview({ preview: { port: 4173, strictPort: true } });
+  browser = await puppeteer.launch({ headless: "shell" });
+});
+
+after(async () => {
+  await browser?.close();
+  await server?.close();
+});
+
+test("the built app loads with the network disabled", async () => {
+  const url = server.resolvedUrls?.local[0];
+  assert.ok(url, "preview server has no URL");
+
+  const page = await browser.newPage();
+  await page.goto(url);
+  await page.waitForSelector("h1::-p-text(Charader)");
+
+  // The first visit installs the worker; it only controls pages loaded after
+  await page.evaluate("navigator.serviceWorker.ready");
+  await page.reload();
+  await page.waitForFunction("navigator.serviceWorker.controller !== null");
+
+  await page.setOfflineMode(true);
+  await server.close();
+
+  await page.reload();
+  assert.ok(await page.waitForSelector("h1::-p-text(Charader)"));
+
+  // Any other route falls back to the cached app shell
+  await page.goto(new URL("/some/deep/link", url).href);
+  assert.ok(await page.waitForSelector("h1::-p-text(Charader)"));
+});
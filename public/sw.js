@@ -1,30 +0,0 @@
-const CACHE_NAME = "charader-cache-v1";
-const urlsToCache = [
-  "/",
-  "/index.html",
-  "/src/main.tsx",
-  "/src/App.tsx",
-  "/src/categories.ts",
-  "/src/index.css",
-  "/manifest.json",
-  "/icon-192.png",
-  "/icon-512.png",
-  "/apple-touch-icon.png",
-];
-
-self.addEventListener("install", (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(urlsToCache))
-  );
-});
-
-self.addEventListener("fetch", (event) => {
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      if (response) {
-        return response;
-      }
-      return fetch(event.request);
-    })
-  );
-});
@@ -0,0 +1,18 @@
+// Rebuilds src/decks/index.json, the details of every pack that the app loads
+// up front. Run with `yarn decks:index` after adding or changing a pack.
+
+import { writeFileSync } from "node:fs";
+import {
+  INDEX_PATH,
+  buildDeckIndex,
+  readDeckIndex,
+  readDeckPacks,
+} from "./deckPackFiles";
+
+const index = buildDeckIndex(
+  readDeckPacks().map(({ pack }) => pack),
+  readDeckIndex()
+);
+
+writeFileSync(INDEX_PATH, `${JSON.stringify(index, null, 2)}\n`);
+console.log(`Indexed ${index.length} packs`);
@@ -0,0 +1,59 @@
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { DeckPack, DeckPackInfo, getPackInfo } from "../src/deckPacks";
+
+export const DECKS_DIR = fileURLToPath(
+  new URL("../src/decks", import.meta.url)
+);
+export const INDEX_PATH = path.join(DECKS_DIR, "index.json");
+
+export interface DeckPackFile {
+  // Relative to src/decks, e.g. "en/animals.json"
+  file: string;
+  pack: DeckPack;
+}
+
+export const readDeckPacks = (): DeckPackFile[] =>
+  readdirSync(DECKS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .flatMap((dir) =>
+      readdirSync(path.join(DECKS_DIR, dir.name))
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => {
+          const file = `${dir.name}/${name}`;
+          return {
+            file,
+            pack: JSON.parse(
+              readFileSync(path.join(DECKS_DIR, file), "utf8")
+            ) as DeckPack,
+          };
+        })
+    );
+
+export const readDeckIndex = (): DeckPackInfo[] =>
+  existsSync(INDEX_PATH)
+    ? (JSON.parse(readFileSync(INDEX_PATH, "utf8")) as DeckPackInfo[])
+    : [];
+
+const packKey = ({ locale, id }: DeckPackInfo) => `${locale}/${id}`;
+
+// Packs keep their place in the index, which is the order categories are
+// listed in; new ones go at the end
+export const buildDeckIndex = (
+  packs: DeckPack[],
+  previous: DeckPackInfo[]
+): DeckPackInfo[] => {
+  const order = previous.map(packKey);
+  const position = (info: DeckPackInfo) => {
+    const index = order.indexOf(packKey(info));
+    return index === -1 ? order.length : index;
+  };
+
+  return packs
+    .map(getPackInfo)
+    .sort(
+      (a, b) =>
+        position(a) - position(b) || packKey(a).localeCompare(packKey(b))
+    );
+};
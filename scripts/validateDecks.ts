@@ -0,0 +1,72 @@
+// Checks the deck packs in src/decks for duplicates, stray whitespace and
+// other slips in every language, and that src/decks/index.json is up to date.
+// Run with `yarn validate:decks`; exits non-zero when there are errors, while
+// warnings are only listed.
+
+import { isDeepStrictEqual } from "node:util";
+import { DeckPack, FALLBACK_LOCALE } from "../src/deckPacks";
+import { DeckToValidate, validateDecks } from "../src/deckValidator";
+import { buildDeckIndex, readDeckIndex, readDeckPacks } from "./deckPackFiles";
+
+let errors = 0;
+let warnings = 0;
+
+const report = (severity: "error" | "warning", message: string) => {
+  if (severity === "error") {
+    errors++;
+  } else {
+    warnings++;
+  }
+  console.log(`${severity} ${message}`);
+};
+
+const files = readDeckPacks();
+const packs = files.map(({ pack }) => pack);
+
+for (const { file, pack } of files) {
+  if (file !== `${pack.locale}/${pack.id}.json`) {
+    report("error", `${file}: the id or locale doesn't match the file name`);
+  }
+  const optionCount = pack.options?.length ?? 0;
+  if (pack.count !== optionCount) {
+    report(
+      "error",
+      `${file}: count is ${pack.count}, but there are ${optionCount} options`
+    );
+  }
+}
+
+const index = readDeckIndex();
+if (!isDeepStrictEqual(index, buildDeckIndex(packs, index))) {
+  report(
+    "error",
+    "src/decks/index.json is out of date; run `yarn decks:index`"
+  );
+}
+
+// Each language as it's played, with untranslated decks in English
+const fallbackPacks = packs.filter((pack) => pack.locale === FALLBACK_LOCALE);
+const toDeck = (pack: DeckPack, fallback: DeckPack): DeckToValidate => ({
+  id: pack.id,
+  name: `${pack.emoji} ${pack.name}`,
+  options: pack.options ?? fallback.options,
+});
+
+for (const locale of new Set(packs.map((pack) => pack.locale))) {
+  const decks = fallbackPacks.map((fallback) =>
+    toDeck(
+      packs.find((p) => p.id === fallback.id && p.locale === locale) ??
+        fallback,
+      fallback
+    )
+  );
+  for (const issue of validateDecks(decks)) {
+    report(
+      issue.severity,
+      `[${locale}] ${issue.category} (${issue.kind}): ${issue.message}`
+    );
+  }
+}
+
+console.log(`\n${errors} errors, ${warnings} warnings`);
+if (errors > 0) process.exitCode = 1;
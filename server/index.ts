@@ -0,0 +1,27 @@
+// Holds the OpenAI key so it never ships to the browser. Configure with:
+//   OPENAI_API_KEY   required
+//   OPENAI_BASE_URL  optional, e.g. a local stub of the completions API
+//   OPENAI_MODEL     defaults to gpt-4o-mini
+//   PORT             defaults to 8787 (Vite proxies /api here in dev)
+import OpenAI from "openai";
+import { createPromptServer } from "./promptServer";
+
+const env = process.env;
+const port = Number(env.PORT ?? 8787);
+
+const server = createPromptServer({
+  // Reads OPENAI_API_KEY and OPENAI_BASE_URL from the environment
+  client: new OpenAI(),
+  model: env.OPENAI_MODEL ?? "gpt-4o-mini",
+  rateLimit: {
+    max: Number(env.RATE_LIMIT_MAX ?? 30),
+    windowMs: Number(env.RATE_LIMIT_WINDOW_MS ?? 60_000),
+  },
+  cacheTtlMs: Number(env.CACHE_TTL_MS ?? 10 * 60_000),
+  trustProxy: env.TRUST_PROXY === "1",
+  corsOrigin: env.CORS_ORIGIN,
+});
+
+server.listen(port, () => {
+  console.log(`Prompt server listening on http://localhost:${port}`);
+});
@@ -0,0 +1,63 @@
+import { createServer } from "node:http";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+
+// Presenter state is a small JSON object, so anything bigger is a mistake
+const MAX_MESSAGE_BYTES = 16 * 1024;
+const ROOM_PATTERN = /^[A-Z0-9]{4,8}$/;
+
+interface Room {
+  clients: Set<WebSocket>;
+  // Replayed to presenters that connect mid-round
+  lastMessage?: string;
+}
+
+// Forwards every message to the other devices in the same room. It doesn't
+// look inside the messages, so it never sees more than the phones send.
+export const createPresenterRelay = () => {
+  const rooms = new Map<string, Room>();
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("Connect with a WebSocket to /presenter?room=CODE");
+  });
+
+  const wss = new WebSocketServer({
+    server,
+    path: "/presenter",
+    maxPayload: MAX_MESSAGE_BYTES,
+  });
+
+  wss.on("connection", (socket, req) => {
+    const code = new URL(req.url ?? "/", "http://localhost").searchParams
+      .get("room")
+      ?.toUpperCase();
+    if (!code || !ROOM_PATTERN.test(code)) {
+      socket.close(1008, "Invalid room code");
+      return;
+    }
+
+    const room = rooms.get(code) ?? { clients: new Set() };
+    rooms.set(code, room);
+    room.clients.add(socket);
+    if (room.lastMessage) socket.send(room.lastMessage);
+
+    socket.on("message", (data: RawData, isBinary: boolean) => {
+      if (isBinary) return;
+
+      const message = data.toString();
+      room.lastMessage = message;
+      for (const client of room.clients) {
+        if (client !== socket && client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      }
+    });
+
+    socket.on("close", () => {
+      room.clients.delete(socket);
+      if (room.clients.size === 0) rooms.delete(code);
+    });
+  });
+
+  return server;
+};
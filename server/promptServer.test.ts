@@ -0,0 +1,257 @@
+import { Server, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import OpenAI from "openai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_EXCLUSIONS } from "../src/promptFormat";
+import {
+  PromptServerOptions,
+  createCache,
+  createPromptServer,
+  createRateLimiter,
+  parseRequestBody,
+} from "./promptServer";
+
+const listen = (server: Server) =>
+  new Promise<string>((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+    )
+  );
+
+const close = (server: Server) =>
+  new Promise<void>((resolve) => server.close(() => resolve()));
+
+describe("createRateLimiter", () => {
+  it("allows up to max requests per key within a window", () => {
+    const isRateLimited = createRateLimiter({ max: 2, windowMs: 1000 });
+
+    expect(isRateLimited("a", 0)).toBe(0);
+    expect(isRateLimited("a", 100)).toBe(0);
+    expect(isRateLimited("a", 400)).toBe(600);
+    expect(isRateLimited("b", 400)).toBe(0);
+  });
+
+  it("starts a new window once the old one has passed", () => {
+    const isRateLimited = createRateLimiter({ max: 1, windowMs: 1000 });
+
+    expect(isRateLimited("a", 0)).toBe(0);
+    expect(isRateLimited("a", 999)).toBe(1);
+    expect(isRateLimited("a", 1000)).toBe(0);
+  });
+});
+
+describe("createCache", () => {
+  it("returns values until they expire", () => {
+    const cache = createCache<string>(1000);
+    cache.set("key", "value", 0);
+
+    expect(cache.get("key", 999)).toBe("value");
+    expect(cache.get("key", 1000)).toBeUndefined();
+    expect(cache.get("missing", 0)).toBeUndefined();
+  });
+
+  it("drops the oldest entry when full", () => {
+    const cache = createCache<number>(1000, 2);
+    cache.set("a", 1, 0);
+    cache.set("b", 2, 0);
+    cache.set("c", 3, 0);
+
+    expect(cache.get("a", 0)).toBeUndefined();
+    expect(cache.get("b", 0)).toBe(2);
+    expect(cache.get("c", 0)).toBe(3);
+  });
+});
+
+describe("parseRequestBody", () => {
+  it("trims the category and caps the count", () => {
+    expect(parseRequestBody({ category: "  movies ", count: 1000 })).toEqual({
+      category: "movies",
+      count: 100,
+      exclusions: [],
+      temperature: undefined,
+      difficulty: undefined,
+      familyMode: undefined,
+      language: undefined,
+      locale: undefined,
+    });
+  });
+
+  it("keeps only the most recent exclusions", () => {
+    const exclusions = Array.from(
+      { length: MAX_EXCLUSIONS + 20 },
+      (_, i) => `Prompt ${i}`
+    );
+    const request = parseRequestBody({
+      category: "movies",
+      count: 10,
+      exclusions,
+    });
+
+    expect(request.exclusions).toHaveLength(MAX_EXCLUSIONS);
+    expect(request.exclusions[0]).toBe("Prompt 20");
+    expect(request.exclusions.at(-1)).toBe(exclusions.at(-1));
+  });
+
+  it.each([
+    ["not an object", "movies"],
+    ["an empty category", { category: " ", count: 1 }],
+    ["a missing count", { category: "movies" }],
+    ["a fractional count", { category: "movies", count: 1.5 }],
+    [
+      "non-string exclusions",
+      { category: "movies", count: 1, exclusions: [1] },
+    ],
+    ["a bad temperature", { category: "movies", count: 1, temperature: 3 }],
+    ["a bad difficulty", { category: "movies", count: 1, difficulty: "epic" }],
+    ["a bad family mode", { category: "movies", count: 1, familyMode: "yes" }],
+    ["a bad language", { category: "movies", count: 1, language: "English." }],
+    ["an unknown locale", { category: "movies", count: 1, locale: "xx" }],
+  ])("rejects %s", (_, body) => {
+    expect(() => parseRequestBody(body)).toThrow(
+      expect.objectContaining({ status: 400 })
+    );
+  });
+});
+
+describe("createPromptServer", () => {
+  // Stands in for the completions API, answering with upstreamPrompts
+  let upstream: Server;
+  let upstreamRequests: { messages: { content: string }[] }[];
+  let upstreamStatus: number;
+  let server: Server;
+  let serverUrl: string;
+
+  const upstreamPrompts = [
+    { text: "Titanic", difficulty: "easy", hint: "A ship" },
+    { text: "Jaws", difficulty: "medium", hint: "A shark" },
+  ];
+
+  const startServer = async (options: Partial<PromptServerOptions> = {}) => {
+    const upstreamUrl = await listen(upstream);
+    server = createPromptServer({
+      client: new OpenAI({
+        apiKey: "test",
+        baseURL: `${upstreamUrl}/v1`,
+        maxRetries: 0,
+      }),
+      model: "test-model",
+      rateLimit: { max: 10, windowMs: 60_000 },
+      cacheTtlMs: 60_000,
+      ...options,
+    });
+    serverUrl = await listen(server);
+  };
+
+  const requestPrompts = (body: unknown, init: RequestInit = {}) =>
+    fetch(`${serverUrl}/api/prompts`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      ...init,
+    });
+
+  beforeEach(() => {
+    upstreamRequests = [];
+    upstreamStatus = 200;
+    upstream = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        upstreamRequests.push(JSON.parse(body));
+        res.writeHead(upstreamStatus, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            id: "completion",
+            object: "chat.completion",
+            created: 0,
+            model: "test-model",
+            choices: [
+              {
+                index: 0,
+                finish_reason: "stop",
+                message: {
+                  role: "assistant",
+                  content: JSON.stringify({ prompts: upstreamPrompts }),
+                },
+              },
+            ],
+          })
+        );
+      });
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await close(server);
+    await close(upstream);
+  });
+
+  it("returns prompts from the upstream model", async () => {
+    await startServer();
+    const response = await requestPrompts({
+      category: "movies",
+      count: 2,
+      exclusions: ["Up"],
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ prompts: upstreamPrompts });
+    expect(upstreamRequests).toHaveLength(1);
+    expect(upstreamRequests[0].messages[0].content).toContain("Up");
+  });
+
+  it("answers repeated requests from the cache", async () => {
+    await startServer();
+    const body = { category: "movies", count: 2, exclusions: ["b", "a"] };
+    await requestPrompts(body);
+    const response = await requestPrompts({ ...body, exclusions: ["a", "b"] });
+
+    expect(await response.json()).toEqual({ prompts: upstreamPrompts });
+    expect(upstreamRequests).toHaveLength(1);
+  });
+
+  it("rate limits each client", async () => {
+    await startServer({ rateLimit: { max: 1, windowMs: 60_000 } });
+    await requestPrompts({ category: "movies", count: 2 });
+    const response = await requestPrompts({ category: "books", count: 2 });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("60");
+  });
+
+  it("rejects bad requests without reaching the model", async () => {
+    await startServer();
+
+    expect((await requestPrompts({ category: "" })).status).toBe(400);
+    expect((await requestPrompts({}, { body: "{not json" })).status).toBe(400);
+    expect((await fetch(`${serverUrl}/api/prompts`)).status).toBe(405);
+    expect((await fetch(`${serverUrl}/elsewhere`)).status).toBe(404);
+    expect(upstreamRequests).toEqual([]);
+  });
+
+  it("rejects bodies that are too large", async () => {
+    await startServer();
+    const response = await requestPrompts({
+      category: "movies",
+      count: 2,
+      exclusions: Array.from({ length: 5000 }, (_, i) => `Prompt ${i}`),
+    });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: "Request body too large" });
+    expect(upstreamRequests).toEqual([]);
+  });
+
+  it("reports upstream failures as a bad gateway", async () => {
+    upstreamStatus = 500;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await startServer();
+    const response = await requestPrompts({ category: "movies", count: 2 });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: "Failed to generate prompts",
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import OpenAI from "openai";
+import { BlocklistLocale, isBlocklistLocale } from "../src/blocklist";
+import {
+  DIFFICULTIES,
+  Difficulty,
+  GeneratedPrompt,
+  MAX_EXCLUSIONS,
+  PROMPT_RESPONSE_FORMAT,
+  generateValidPrompts,
+} from "../src/promptFormat";
+
+export interface PromptServerOptions {
+  client: OpenAI;
+  model: string;
+  // Requests allowed per IP within each window
+  rateLimit: { max: number; windowMs: number };
+  cacheTtlMs: number;
+  // Only trust X-Forwarded-For when running behind a reverse proxy
+  trustProxy?: boolean;
+  corsOrigin?: string;
+}
+
+interface PromptRequestBody {
+  category: string;
+  count: number;
+  exclusions: string[];
+  temperature?: number;
+  difficulty?: Difficulty;
+  familyMode?: boolean;
+  language?: string;
+  locale?: BlocklistLocale;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_COUNT = 100;
+const MAX_CATEGORY_LENGTH = 200;
+const MAX_CACHE_ENTRIES = 500;
+
+export const createRateLimiter = ({
+  max,
+  windowMs,
+}: PromptServerOptions["rateLimit"]) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  // Returns how many ms the caller must wait, or 0 if the request is allowed
+  return (key: string, now = Date.now()): number => {
+    // Windows are kept in the order they started, so expired ones are at the
+    // front. Dropping them keeps one-off clients from piling up.
+    for (const [oldKey, { startedAt }] of windows) {
+      if (now - startedAt < windowMs) break;
+      windows.delete(oldKey);
+    }
+
+    const window = windows.get(key);
+    if (!window || now - window.startedAt >= windowMs) {
+      // Deleted first, so the new window moves to the back
+      windows.delete(key);
+      windows.set(key, { startedAt: now, count: 1 });
+      return 0;
+    }
+    if (window.count >= max) {
+      return window.startedAt + windowMs - now;
+    }
+    window.count += 1;
+    return 0;
+  };
+};
+
+export const createCache = <T>(
+  ttlMs: number,
+  maxEntries = MAX_CACHE_ENTRIES
+) => {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+
+  return {
+    get: (key: string, now = Date.now()): T | undefined => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set: (key: string, value: T, now = Date.now()) => {
+      // Maps iterate in insertion order, so the first key is the oldest
+      if (entries.size >= maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      entries.set(key, { value, expiresAt: now + ttlMs });
+    },
+  };
+};
+
+export const parseRequestBody = (body: unknown): PromptRequestBody => {
+  if (typeof body !== "object" || body === null) {
+    throw new HttpError(400, "Expected a JSON object");
+  }
+
+  const {
+    category,
+    count,
+    exclusions = [],
+    temperature,
+    difficulty,
+    familyMode,
+    language,
+    locale,
+  } = body as Record<string, unknown>;
+
+  if (
+    typeof category !== "string" ||
+    !category.trim() ||
+    category.length > MAX_CATEGORY_LENGTH
+  ) {
+    throw new HttpError(400, "category must be a non-empty string");
+  }
+  if (!Number.isInteger(count) || (count as number) < 1) {
+    throw new HttpError(400, "count must be a positive integer");
+  }
+  if (
+    !Array.isArray(exclusions) ||
+    exclusions.some((item) => typeof item !== "string")
+  ) {
+    throw new HttpError(400, "exclusions must be an array of strings");
+  }
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== "number" || temperature < 0 || temperature > 2)
+  ) {
+    throw new HttpError(400, "temperature must be between 0 and 2");
+  }
+  if (
+    difficulty !== undefined &&
+    !DIFFICULTIES.includes(difficulty as Difficulty)
+  ) {
+    throw new HttpError(400, "difficulty must be easy, medium or hard");
+  }
+  if (familyMode !== undefined && typeof familyMode !== "boolean") {
+    throw new HttpError(400, "familyMode must be a boolean");
+  }
+  // Only letters and spaces, since this ends up in the model's instructions
+  if (
+    language !== undefined &&
+    (typeof language !== "string" || !/^[\p{L} ]{1,40}$/u.test(language))
+  ) {
+    throw new HttpError(400, "language must be a language name");
+  }
+  if (locale !== undefined && !isBlocklistLocale(locale)) {
+    throw new HttpError(400, "locale must be a supported locale");
+  }
+
+  return {
+    category: category.trim(),
+    count: Math.min(count as number, MAX_COUNT),
+    exclusions: (exclusions as string[]).slice(-MAX_EXCLUSIONS),
+    temperature: temperature as number | undefined,
+    difficulty: difficulty as Difficulty | undefined,
+    familyMode: familyMode as boolean | undefined,
+    language: language as string | undefined,
+    locale,
+  };
+};
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading, but leave the socket open for the 413 response
+        req.removeAllListeners("data");
+        req.pause();
+        reject(new HttpError(413, "Request body too large"));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new HttpError(400, "Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const getClientIp = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string") {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const createPromptServer = (options: PromptServerOptions) => {
+  const isRateLimited = createRateLimiter(options.rateLimit);
+  const cache = createCache<GeneratedPrompt[]>(options.cacheTtlMs);
+
+  const generatePrompts = async (request: PromptRequestBody) => {
+    const cacheKey = JSON.stringify({
+      ...request,
+      exclusions: [...request.exclusions].sort(),
+    });
+    const cached = cache.get(cacheKey);
+    if (cached) return cached;
+
+    const prompts = await generateValidPrompts(async (content) => {
+      const completion = await options.client.chat.completions.create({
+        model: options.model,
+        messages: [{ role: "user", content }],
+        response_format: PROMPT_RESPONSE_FORMAT,
+        temperature: request.temperature ?? 1.5,
+      });
+      return completion.choices[0].message.content;
+    }, request);
+
+    cache.set(cacheKey, prompts);
+    return prompts;
+  };
+
+  return createServer(async (req, res) => {
+    if (options.corsOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", options.corsOrigin);
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+    }
+
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname !== "/api/prompts") {
+        throw new HttpError(404, "Not found");
+      }
+      if (req.method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      if (req.method !== "POST") {
+        throw new HttpError(405, "Method not allowed");
+      }
+
+      const retryAfterMs = isRateLimited(
+        getClientIp(req, options.trustProxy ?? false)
+      );
+      if (retryAfterMs > 0) {
+        sendJson(
+          res,
+          429,
+          { error: "Too many requests" },
+          { "Retry-After": Math.ceil(retryAfterMs / 1000).toString() }
+        );
+        return;
+      }
+
+      const request = parseRequestBody(await readJson(req));
+      sendJson(res, 200, { prompts: await generatePrompts(request) });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        // The rest of a body that was too large is never read, so the
+        // connection can't be reused
+        sendJson(
+          res,
+          error.status,
+          { error: error.message },
+          error.status === 413 ? { Connection: "close" } : {}
+        );
+        return;
+      }
+      console.error("Failed to generate prompts:", error);
+      sendJson(res, 502, { error: "Failed to generate prompts" });
+    }
+  });
+};
@@ -0,0 +1,10 @@
+// Relays presenter state from the actor's phone to a TV or laptop on the same
+// network. Needs no internet connection or API key. Configure with:
+//   PORT  defaults to 8788 (Vite proxies /presenter here in dev)
+import { createPresenterRelay } from "./presenterRelay";
+
+const port = Number(process.env.PORT ?? 8788);
+
+createPresenterRelay().listen(port, () => {
+  console.log(`Presenter relay listening on ws://localhost:${port}/presenter`);
+});
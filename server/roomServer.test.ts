@@ -0,0 +1,244 @@
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import {
+  ClientMessage,
+  RoomSnapshot,
+  ServerMessage,
+} from "../src/roomProtocol";
+import { createRoomServer } from "./roomServer";
+
+type MessageOf<T extends ServerMessage["type"]> = Extract<
+  ServerMessage,
+  { type: T }
+>;
+
+// A phone in the room, which keeps every message until a test asks for it
+interface TestClient {
+  send: (message: ClientMessage) => void;
+  receive: <T extends ServerMessage["type"]>(type: T) => Promise<MessageOf<T>>;
+  // Every message received so far, including ones already asked for
+  received: ServerMessage[];
+  close: () => Promise<void>;
+}
+
+describe("createRoomServer", () => {
+  let server: Server;
+  let serverUrl: string;
+  let clients: TestClient[];
+
+  const connect = async (): Promise<TestClient> => {
+    const socket = new WebSocket(`${serverUrl}/room`);
+    const received: ServerMessage[] = [];
+    const unread: ServerMessage[] = [];
+    const waiting: {
+      type: ServerMessage["type"];
+      resolve: (message: ServerMessage) => void;
+    }[] = [];
+
+    socket.on("message", (data) => {
+      const message = JSON.parse(data.toString()) as ServerMessage;
+      received.push(message);
+      const index = waiting.findIndex(({ type }) => type === message.type);
+      if (index === -1) {
+        unread.push(message);
+      } else {
+        waiting.splice(index, 1)[0].resolve(message);
+      }
+    });
+    await new Promise((resolve) => socket.once("open", resolve));
+
+    const client: TestClient = {
+      send: (message) => socket.send(JSON.stringify(message)),
+      receive: <T extends ServerMessage["type"]>(type: T) =>
+        new Promise<MessageOf<T>>((resolve) => {
+          const index = unread.findIndex((message) => message.type === type);
+          if (index === -1) {
+            waiting.push({
+              type,
+              resolve: (message) => resolve(message as MessageOf<T>),
+            });
+          } else {
+            resolve(unread.splice(index, 1)[0] as MessageOf<T>);
+          }
+        }),
+      received,
+      close: () =>
+        new Promise((resolve) => {
+          if (socket.readyState === WebSocket.CLOSED) return resolve();
+          socket.once("close", () => resolve());
+          socket.close();
+        }),
+    };
+    clients.push(client);
+    return client;
+  };
+
+  const host = async () => {
+    const client = await connect();
+    client.send({ type: "host" });
+    const welcome = await client.receive("welcome");
+    await client.receive("room");
+    return { client, ...welcome };
+  };
+
+  const join = async (room: string, name: string, token?: string) => {
+    const client = await connect();
+    client.send({ type: "join", room, name, token });
+    return { client, ...(await client.receive("welcome")) };
+  };
+
+  // Skips older snapshots, which may still be waiting to be read
+  const receiveRoom = async (
+    client: TestClient,
+    matches: (room: RoomSnapshot) => boolean
+  ) => {
+    for (;;) {
+      const { room } = await client.receive("room");
+      if (matches(room)) return room;
+    }
+  };
+
+  const roomWithPlayers = (client: TestClient, count: number) =>
+    receiveRoom(
+      client,
+      (room) =>
+        room.players.filter((player) => player.connected).length === count
+    );
+
+  const turnOf = (client: TestClient, actorId?: string) =>
+    receiveRoom(client, (room) => room.actorId === actorId);
+
+  beforeEach(async () => {
+    clients = [];
+    server = createRoomServer({ emptyRoomTtlMs: 60_000, heartbeatMs: 60_000 });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    serverUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("lets players join a room by its code", async () => {
+    const { client: hostClient, room } = await host();
+    const sam = await join(room, "Sam");
+
+    expect(sam.room).toBe(room);
+    expect(sam.playerId).toEqual(expect.any(String));
+    expect(await roomWithPlayers(hostClient, 1)).toMatchObject({
+      code: room,
+      hostConnected: true,
+      players: [{ id: sam.playerId, name: "Sam", connected: true }],
+    });
+  });
+
+  it("turns away players for rooms that don't exist", async () => {
+    const client = await connect();
+    client.send({ type: "join", room: "ZZZZ", name: "Sam" });
+
+    expect(await client.receive("error")).toEqual({
+      type: "error",
+      error: "roomNotFound",
+    });
+  });
+
+  it("gives players back their place when they reconnect", async () => {
+    const { client: hostClient, room } = await host();
+    const sam = await join(room, "Sam");
+    await roomWithPlayers(hostClient, 1);
+    hostClient.send({ type: "startTurn" });
+    hostClient.send({ type: "prompt", prompt: "Jaws" });
+    expect(await sam.client.receive("prompt")).toEqual({
+      type: "prompt",
+      prompt: "Jaws",
+    });
+
+    await sam.client.close();
+    await roomWithPlayers(hostClient, 0);
+    const rejoined = await join(room, "Sam", sam.token);
+
+    expect(rejoined.playerId).toBe(sam.playerId);
+    expect(rejoined.token).toBe(sam.token);
+    // The actor's phone gets the prompt back mid-turn
+    expect(await rejoined.client.receive("prompt")).toEqual({
+      type: "prompt",
+      prompt: "Jaws",
+    });
+    expect((await roomWithPlayers(hostClient, 1)).players).toHaveLength(1);
+  });
+
+  it("gives the host back their room when they reconnect", async () => {
+    const first = await host();
+    await first.client.close();
+
+    const client = await connect();
+    client.send({ type: "host", room: first.room, token: first.token });
+
+    expect(await client.receive("welcome")).toEqual({
+      type: "welcome",
+      room: first.room,
+      token: first.token,
+    });
+  });
+
+  it("only sends the prompt to the actor", async () => {
+    const { client: hostClient, room } = await host();
+    const sam = await join(room, "Sam");
+    const alex = await join(room, "Alex");
+    await roomWithPlayers(hostClient, 2);
+
+    hostClient.send({ type: "startTurn" });
+    await turnOf(alex.client, sam.playerId);
+    hostClient.send({ type: "prompt", prompt: "Jaws" });
+    hostClient.send({ type: "endTurn" });
+
+    expect(await sam.client.receive("prompt")).toEqual({
+      type: "prompt",
+      prompt: "Jaws",
+    });
+    expect(await sam.client.receive("prompt")).toEqual({
+      type: "prompt",
+      prompt: null,
+    });
+    // endTurn is broadcast after the prompts, so Alex has seen everything
+    await turnOf(alex.client, sam.playerId);
+    expect(alex.client.received.map((message) => message.type)).not.toContain(
+      "prompt"
+    );
+  });
+
+  it("passes on actions from the actor and rejects everyone else's", async () => {
+    const { client: hostClient, room } = await host();
+    const sam = await join(room, "Sam");
+    const alex = await join(room, "Alex");
+    await roomWithPlayers(hostClient, 2);
+    hostClient.send({ type: "startTurn" });
+    await turnOf(sam.client, sam.playerId);
+
+    alex.client.send({ type: "action", action: "skip" });
+    expect(await alex.client.receive("error")).toEqual({
+      type: "error",
+      error: "notAllowed",
+    });
+    alex.client.send({ type: "startTurn" });
+    expect(await alex.client.receive("error")).toEqual({
+      type: "error",
+      error: "notAllowed",
+    });
+
+    sam.client.send({ type: "action", action: "correct" });
+    expect(await hostClient.receive("action")).toEqual({
+      type: "action",
+      action: "correct",
+      playerId: sam.playerId,
+    });
+    expect(
+      hostClient.received.filter((message) => message.type === "action")
+    ).toHaveLength(1);
+  });
+});
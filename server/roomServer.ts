@@ -0,0 +1,286 @@
+import { randomInt, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  ClientMessage,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  RoomScore,
+  RoomSnapshot,
+  ServerMessage,
+  parseClientMessage,
+} from "../src/roomProtocol";
+
+export interface RoomServerOptions {
+  // How long an empty room is kept, so phones that slept can come back
+  emptyRoomTtlMs: number;
+  // Sockets that miss a ping for this long are dropped
+  heartbeatMs: number;
+}
+
+const MAX_MESSAGE_BYTES = 4 * 1024;
+
+interface Player {
+  id: string;
+  name: string;
+  token: string;
+  socket: WebSocket | null;
+}
+
+interface Room {
+  code: string;
+  hostToken: string;
+  host: WebSocket | null;
+  // Maps keep insertion order, which is the acting order
+  players: Map<string, Player>;
+  actorId: string | null;
+  // Resent to the actor if their phone reconnects mid-turn
+  prompt: string | null;
+  lastScore: RoomScore | null;
+  expiry?: ReturnType<typeof setTimeout>;
+}
+
+// Who a socket is, once it has said hello
+type Identity = { room: Room; playerId: string | null };
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const snapshot = (room: Room): RoomSnapshot => ({
+  code: room.code,
+  hostConnected: room.host !== null,
+  players: [...room.players.values()].map(({ id, name, socket }) => ({
+    id,
+    name,
+    connected: socket !== null,
+  })),
+  actorId: room.actorId,
+});
+
+const broadcast = (room: Room, message: ServerMessage) => {
+  send(room.host, message);
+  for (const player of room.players.values()) send(player.socket, message);
+};
+
+// Takes turns in join order, skipping phones that aren't connected
+const getNextActor = (room: Room): string | null => {
+  const players = [...room.players.values()];
+  const start = players.findIndex((player) => player.id === room.actorId) + 1;
+  for (let i = 0; i < players.length; i++) {
+    const player = players[(start + i) % players.length];
+    if (player.socket) return player.id;
+  }
+  return null;
+};
+
+// Runs rooms for games played across several phones: the host's phone runs
+// the game, the server picks who acts next, and only the actor is sent the
+// prompt. Everything stays in memory, so it works on a LAN with no internet.
+export const createRoomServer = ({
+  emptyRoomTtlMs,
+  heartbeatMs,
+}: RoomServerOptions) => {
+  const rooms = new Map<string, Room>();
+
+  const createCode = () => {
+    let code: string;
+    do {
+      code = Array.from(
+        { length: ROOM_CODE_LENGTH },
+        () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]
+      ).join("");
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const isEmpty = (room: Room) =>
+    !room.host && [...room.players.values()].every((player) => !player.socket);
+
+  const scheduleExpiry = (room: Room) => {
+    clearTimeout(room.expiry);
+    if (!isEmpty(room)) return;
+    room.expiry = setTimeout(() => rooms.delete(room.code), emptyRoomTtlMs);
+  };
+
+  const handleHello = (
+    socket: WebSocket,
+    message: ClientMessage
+  ): Identity | null => {
+    if (message.type === "host") {
+      const existing = message.room ? rooms.get(message.room) : undefined;
+      const room: Room =
+        existing && existing.hostToken === message.token
+          ? existing
+          : {
+              code: createCode(),
+              hostToken: randomUUID(),
+              host: null,
+              players: new Map(),
+              actorId: null,
+              prompt: null,
+              lastScore: null,
+            };
+      rooms.set(room.code, room);
+      // A second tab with the same token takes over from the first
+      room.host?.close(4000, "Replaced");
+      room.host = socket;
+
+      send(socket, { type: "welcome", room: room.code, token: room.hostToken });
+      broadcast(room, { type: "room", room: snapshot(room) });
+      return { room, playerId: null };
+    }
+
+    if (message.type === "join") {
+      const room = rooms.get(message.room);
+      if (!room) {
+        send(socket, { type: "error", error: "roomNotFound" });
+        return null;
+      }
+
+      const player = [...room.players.values()].find(
+        ({ token }) => token === message.token
+      ) ?? {
+        id: randomUUID(),
+        name: message.name,
+        token: randomUUID(),
+        socket: null,
+      };
+      room.players.set(player.id, player);
+      player.socket?.close(4000, "Replaced");
+      player.socket = socket;
+
+      send(socket, {
+        type: "welcome",
+        room: room.code,
+        token: player.token,
+        playerId: player.id,
+      });
+      broadcast(room, { type: "room", room: snapshot(room) });
+      if (room.actorId === player.id && room.prompt !== null) {
+        send(socket, { type: "prompt", prompt: room.prompt });
+      }
+      if (room.lastScore) send(socket, { type: "score", ...room.lastScore });
+      return { room, playerId: player.id };
+    }
+
+    send(socket, { type: "error", error: "notAllowed" });
+    return null;
+  };
+
+  const handleMessage = (
+    socket: WebSocket,
+    { room, playerId }: Identity,
+    message: ClientMessage
+  ) => {
+    const isHost = playerId === null;
+
+    if (message.type === "action" && !isHost && playerId === room.actorId) {
+      send(room.host, { type: "action", action: message.action, playerId });
+      return;
+    }
+    if (!isHost) {
+      send(socket, { type: "error", error: "notAllowed" });
+      return;
+    }
+
+    switch (message.type) {
+      case "startTurn":
+        room.actorId = getNextActor(room);
+        room.prompt = null;
+        room.lastScore = null;
+        broadcast(room, { type: "room", room: snapshot(room) });
+        break;
+      case "prompt":
+        room.prompt = message.prompt;
+        if (room.actorId) {
+          send(room.players.get(room.actorId)?.socket ?? null, message);
+        }
+        break;
+      case "score": {
+        const { type, ...score } = message;
+        room.lastScore = score;
+        broadcast(room, { type, ...score });
+        break;
+      }
+      case "endTurn":
+        if (room.actorId) {
+          send(room.players.get(room.actorId)?.socket ?? null, {
+            type: "prompt",
+            prompt: null,
+          });
+        }
+        room.prompt = null;
+        broadcast(room, { type: "room", room: snapshot(room) });
+        break;
+      default:
+        send(socket, { type: "error", error: "notAllowed" });
+    }
+  };
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("Connect with a WebSocket to /room");
+  });
+
+  const wss = new WebSocketServer({
+    server,
+    path: "/room",
+    maxPayload: MAX_MESSAGE_BYTES,
+  });
+
+  // Phones that sleep often vanish without closing their socket
+  const alive = new WeakSet<WebSocket>();
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+  }, heartbeatMs);
+
+  wss.on("connection", (socket) => {
+    let identity: Identity | null = null;
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    socket.on("message", (data, isBinary) => {
+      const message = isBinary ? null : parseClientMessage(data.toString());
+      if (!message) {
+        send(socket, { type: "error", error: "invalidMessage" });
+      } else if (!identity) {
+        identity = handleHello(socket, message);
+        if (identity) clearTimeout(identity.room.expiry);
+      } else {
+        handleMessage(socket, identity, message);
+      }
+    });
+
+    socket.on("close", () => {
+      if (!identity) return;
+      const { room, playerId } = identity;
+
+      // The socket may already have been replaced by a newer one
+      if (playerId === null) {
+        if (room.host === socket) room.host = null;
+      } else {
+        const player = room.players.get(playerId);
+        if (player?.socket === socket) player.socket = null;
+      }
+      broadcast(room, { type: "room", room: snapshot(room) });
+      scheduleExpiry(room);
+    });
+  });
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    for (const room of rooms.values()) clearTimeout(room.expiry);
+  });
+
+  return server;
+};
@@ -0,0 +1,19 @@
+// Runs rooms for games played across several phones on the same network.
+// Needs no internet connection or API key; players open the app from the
+// host's address, e.g. with `yarn dev --host`. Configure with:
+//   PORT                 defaults to 8789 (Vite proxies /room here in dev)
+//   EMPTY_ROOM_TTL_MS    how long a room outlives its last connection
+import { createRoomServer } from "./roomServer";
+
+const env = process.env;
+const port = Number(env.PORT ?? 8789);
+
+const server = createRoomServer({
+  emptyRoomTtlMs: Number(env.EMPTY_ROOM_TTL_MS ?? 15 * 60_000),
+  heartbeatMs: 30_000,
+});
+
+// Listens on every interface so other phones on the LAN can connect
+server.listen(port, () => {
+  console.log(`Room server listening on ws://localhost:${port}/room`);
+});
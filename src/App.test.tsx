@@ -0,0 +1,242 @@
+// @vitest-environment jsdom
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  within,
+} from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+import { saveGame } from "./history";
+
+const PROMPTS = [
+  "Treasure Island",
+  "Pirates of the Caribbean",
+  "Hook",
+  "Captain Phillips",
+  "Muppet Treasure Island",
+];
+
+const { createCompletion } = vi.hoisted(() => ({
+  createCompletion: vi.fn(),
+}));
+
+vi.mock("openai", () => ({
+  default: class {
+    chat = { completions: { create: createCompletion } };
+  },
+}));
+
+vi.mock("./history", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./history")>()),
+  saveGame: vi.fn(() => Promise.resolve("saved")),
+}));
+
+// jsdom has no audio, and the sounds aren't under test
+class SilentAudioContext {
+  currentTime = 0;
+  destination = {};
+  createOscillator = () => ({
+    connect: () => {},
+    start: () => {},
+    stop: () => {},
+    frequency: {
+      setValueAtTime: () => {},
+      exponentialRampToValueAtTime: () => {},
+    },
+  });
+  createGain = () => ({
+    connect: () => {},
+    gain: {
+      setValueAtTime: () => {},
+      exponentialRampToValueAtTime: () => {},
+    },
+  });
+}
+
+const categoryCheckbox = (name: string) =>
+  within(screen.getByText(name).parentElement!).getByRole<HTMLInputElement>(
+    "checkbox"
+  );
+
+const advance = (ms: number) =>
+  act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.stubGlobal("AudioContext", SilentAudioContext);
+  vi.stubGlobal("matchMedia", () => ({ matches: false }));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+});
+
+describe("category selection", () => {
+  it("starts on All Categories, which covers every built-in deck", () => {
+    render(<App />);
+
+    expect(categoryCheckbox("🎲 All Categories").checked).toBe(true);
+    expect(categoryCheckbox("🦁 Animals").checked).toBe(true);
+    expect(categoryCheckbox("🦁 Animals").disabled).toBe(true);
+    expect(categoryCheckbox("🎯 Custom").checked).toBe(false);
+  });
+
+  it("selects only the category whose name was clicked", () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByText("🦁 Animals"));
+
+    expect(categoryCheckbox("🦁 Animals").checked).toBe(true);
+    expect(categoryCheckbox("🎲 All Categories").checked).toBe(false);
+    expect(categoryCheckbox("🍕 Food").checked).toBe(false);
+    expect(categoryCheckbox("🍕 Food").disabled).toBe(false);
+
+    fireEvent.click(screen.getByText("🍕 Food"));
+
+    expect(categoryCheckbox("🍕 Food").checked).toBe(true);
+    expect(categoryCheckbox("🦁 Animals").checked).toBe(false);
+  });
+
+  it("adds and removes categories with their checkboxes", () => {
+    render(<App />);
+    fireEvent.click(screen.getByText("🦁 Animals"));
+
+    fireEvent.click(categoryCheckbox("🍕 Food"));
+
+    expect(categoryCheckbox("🦁 Animals").checked).toBe(true);
+    expect(categoryCheckbox("🍕 Food").checked).toBe(true);
+
+    fireEvent.click(categoryCheckbox("🦁 Animals"));
+
+    expect(categoryCheckbox("🦁 Animals").checked).toBe(false);
+    expect(categoryCheckbox("🍕 Food").checked).toBe(true);
+  });
+
+  it("keeps at least one category selected", () => {
+    render(<App />);
+    fireEvent.click(screen.getByText("🦁 Animals"));
+
+    fireEvent.click(categoryCheckbox("🦁 Animals"));
+
+    expect(categoryCheckbox("🦁 Animals").checked).toBe(true);
+
+    fireEvent.click(categoryCheckbox("🎲 All Categories"));
+    fireEvent.click(categoryCheckbox("🎲 All Categories"));
+
+    expect(categoryCheckbox("🎲 All Categories").checked).toBe(true);
+  });
+
+  it("replaces any other selection with All Categories", () => {
+    render(<App />);
+    fireEvent.click(screen.getByText("🎯 Custom"));
+    fireEvent.click(categoryCheckbox("🦁 Animals"));
+
+    fireEvent.click(categoryCheckbox("🎲 All Categories"));
+
+    expect(categoryCheckbox("🎲 All Categories").checked).toBe(true);
+    expect(categoryCheckbox("🦁 Animals").disabled).toBe(true);
+    expect(categoryCheckbox("🎯 Custom").checked).toBe(false);
+    expect(screen.queryByLabelText("Custom Category")).toBeNull();
+  });
+});
+
+describe("a round", () => {
+  beforeEach(() => {
+    localStorage.setItem(
+      "charader:settings",
+      JSON.stringify({ provider: "compatible" })
+    );
+    createCompletion.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              prompts: PROMPTS.map((text) => ({
+                text,
+                difficulty: "easy",
+                hint: `Hint for ${text}`,
+              })),
+            }),
+          },
+        },
+      ],
+    });
+    vi.useFakeTimers({
+      toFake: [
+        "setTimeout",
+        "clearTimeout",
+        "Date",
+        "performance",
+        "requestAnimationFrame",
+        "cancelAnimationFrame",
+      ],
+    });
+  });
+
+  it("plays a custom category from the model through to the score", async () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByText("🎯 Custom"));
+    fireEvent.change(screen.getByLabelText("Custom Category"), {
+      target: { value: "Pirate movies" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Start Game" }));
+    await advance(0);
+
+    expect(createCompletion).toHaveBeenCalled();
+    expect(createCompletion.mock.calls[0][0].messages[0].content).toContain(
+      "Pirate movies"
+    );
+
+    // Each number is shown for a second, then GO!
+    for (const count of ["3", "2", "1"]) {
+      expect(screen.getByText(count)).toBeTruthy();
+      await advance(1000);
+    }
+
+    const played: string[] = [];
+    const answer = (name: "Correct" | "Skip") => {
+      const prompt = screen.getByRole("heading", { level: 1 }).textContent!;
+      expect(screen.getByText(`Hint for ${prompt}`)).toBeTruthy();
+      played.push(prompt);
+      fireEvent.click(screen.getByRole("button", { name }));
+    };
+
+    expect(screen.getByText("1:00")).toBeTruthy();
+    answer("Correct");
+    await advance(10_500);
+    answer("Skip");
+    await advance(10_500);
+    answer("Correct");
+
+    expect(screen.getByText("0:39")).toBeTruthy();
+    expect(PROMPTS).toEqual(expect.arrayContaining(played));
+    expect(new Set(played).size).toBe(3);
+
+    await advance(40_000);
+
+    expect(screen.getByText("Game Over!")).toBeTruthy();
+    expect(screen.getByText("Score: 2 / 3")).toBeTruthy();
+    for (const prompt of played) {
+      expect(screen.getByText(prompt)).toBeTruthy();
+    }
+    expect(saveGame).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveGame).mock.calls[0][0].results).toEqual(
+      played.map((prompt, i) =>
+        expect.objectContaining({
+          prompt,
+          correct: i !== 1,
+          category: "Pirate movies",
+        })
+      )
+    );
+  });
+});
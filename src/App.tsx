@@ -1,27 +1,113 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { RotateCcw, Timer } from "lucide-react";
-import OpenAI from "openai";
-import React, { useEffect, useState } from "react";
-import { ALL_CATEGORIES, getRandomOptionsForCategory } from "./categories";
-
-interface Category {
-  id: string;
-  name: string;
-  prompt: string;
-}
-
-interface GameConfig {
-  duration: number;
-  categories: Category[];
-}
-
-interface GameResult {
-  prompt: string;
-  correct: boolean;
-}
+import {
+  ArrowRight,
+  History,
+  Pause,
+  Play,
+  RotateCcw,
+  Settings as SettingsIcon,
+  Square,
+  Timer,
+  Trophy,
+  Users,
+} from "lucide-react";
+import React, { useEffect, useMemo, useReducer, useRef, useState } from "react";
+import {
+  getAllCategories,
+  getOptionDifficulty,
+  getSelectedCategories,
+} from "./categories";
+import {
+  CONTROL_ACTIONS,
+  ControlBindings,
+  formatInput,
+  hasPhysicalControls,
+  useGameControls,
+} from "./controls";
+import { CustomDeck, saveCustomDeck } from "./customDecks";
+import DeckEditor from "./DeckEditor";
+import { clearSharedDeck, hasSharedDeck, readSharedDeck } from "./deckSharing";
+import {
+  FamilyModeSettings,
+  loadFamilyMode,
+  saveFamilyMode,
+} from "./familyMode";
+import FamilyModeToggle from "./FamilyModeToggle";
+import GameHistory from "./GameHistory";
+import { saveGame } from "./history";
+import { LocaleContext, detectLocale, useTranslation } from "./i18n";
+import { PresenterState, usePresenterLink } from "./presenter";
+import { getCachedPromptCount, processPregenerateQueue } from "./promptCache";
+import { DIFFICULTIES, Difficulty } from "./promptFormat";
+import {
+  PromptProvider,
+  createPromptProvider,
+  getInitialProvider,
+} from "./promptProviders";
+import {
+  getSeenPrompts,
+  markPromptsSeen,
+  resetSeenPrompts,
+} from "./seenPrompts";
+import {
+  MAX_ROUNDS,
+  MAX_TEAMS,
+  MIN_TEAMS,
+  Team,
+  createDefaultTeams,
+  getLeaders,
+  getTeamScores,
+  getTotalTurns,
+  getTurn,
+} from "./teams";
+import {
+  TiltDirection,
+  isTiltSupported,
+  requestTiltPermission,
+  useTiltControls,
+} from "./tilt";
+import RoomLobby from "./RoomLobby";
+import { RoomSnapshot } from "./roomProtocol";
+import { HostedRoom, useHostedRoom, useRoomActions } from "./rooms";
+import {
+  canAnswer,
+  createRoundState,
+  getCurrentPrompt,
+  getSkipsLeft,
+  isTimerRunning,
+  getFetchRetryDelayMs,
+  needsMorePrompts,
+  roundReducer,
+} from "./round";
+import { useRoundTimer } from "./roundTimer";
+import { Settings, loadSettings, saveSettings } from "./settings";
+import SettingsScreen from "./SettingsScreen";
+import SharedDeckPreview from "./SharedDeckPreview";
+import {
+  DEFAULT_RULES,
+  SKIP_TIME_PENALTY,
+  STREAK_LENGTH,
+  getResultPoints,
+  getScore,
+  getScoreBreakdown,
+} from "./scoring";
+import { shuffleArray } from "./shuffle";
+import { getRandomPastelTheme } from "./theme";
+import { Category, GameConfig, GameResult, ScoringRules } from "./types";
+import UpdatePrompt from "./UpdatePrompt";
 
 interface GameSetupProps {
-  onStartGame: (duration: number, categories: Category[]) => void;
+  onStartGame: (config: GameConfig) => void;
+  onShowHistory: () => void;
+  onShowSettings: () => void;
+  onShowDecks: () => void;
+  onShowRoom: () => void;
+  // The hosted room, if one is open
+  room: RoomSnapshot | null;
+  allowCustomCategories: boolean;
+  // Custom categories can only be generated online, and otherwise need saved
+  // prompts
+  customCategoriesNeedInternet: boolean;
   isLoading: boolean;
 }
 
@@ -29,96 +115,145 @@ interface GameScreenProps {
   duration: number;
   initialPrompts: string[];
   category: Category;
-  onGameEnd: (results: GameResult[]) => void;
+  // outOfPrompts when the round ended before the clock did
+  onGameEnd: (results: GameResult[], outOfPrompts: boolean) => void;
   promptCategories: Record<string, string>;
+  promptDifficulties: Record<string, Difficulty>;
+  promptHints: Record<string, string>;
+  difficulty?: Difficulty;
+  familyMode: boolean;
+  rules: ScoringRules;
+  tiltControls: boolean;
+  controls: ControlBindings;
+  provider: PromptProvider;
+  // The playing team, shown on the presenter screen
+  team?: string;
+  onPresenterUpdate: (state: PresenterState) => void;
+  // Set while hosting a room, whose actor gets the prompts instead
+  room?: HostedRoom;
 }
 
 interface GameEndProps {
   results: GameResult[];
+  weightedScoring: boolean;
+  rules: ScoringRules;
   onPlayAgain: () => void;
+  scoreboard?: ScoreboardProps;
+  onNextTurn?: () => void;
+  outOfPrompts?: boolean;
 }
 
-interface GameState {
-  availablePrompts: string[];
-  usedPrompts: string[];
-  isLoadingMore: boolean;
-  promptCategories: Record<string, string>;
+interface ScoreboardProps {
+  teams: Team[];
+  scores: number[];
+  activeTeamIndex?: number;
 }
 
-interface CountdownProps {
-  onComplete: () => void;
+interface HandOffProps {
+  teams: Team[];
+  scores: number[];
+  turnIndex: number;
+  rounds: number;
+  isLoading: boolean;
+  onReady: () => void;
 }
 
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-};
+interface TeamDraft {
+  name: string;
+  players: string;
+}
 
-const BASE_PROMPT = `Generate exactly {count} {category} for a game of charades.
-Format: One item per line, no numbers, no extra text.
-Keep items simple, and don't only include the most popular items (otherwise, it's the same every time).
-Items should be easy to describe or act out.
-Do not include any introductory text or explanations.
-{exclusions}`;
-
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true, // Note: In production, you should make API calls from your backend
-});
-
-const getRandomPastelTheme = () => {
-  const themes = [
-    {
-      primary: "bg-rose-100 text-rose-800",
-      secondary: "bg-rose-600 text-white",
-      accent: "bg-rose-50",
-      border: "border-rose-200",
-      hover: "hover:bg-rose-700",
-      focus: "focus:ring-rose-500 focus:border-rose-500",
-      checkbox: "text-rose-600",
-    },
-    {
-      primary: "bg-sky-100 text-sky-800",
-      secondary: "bg-sky-600 text-white",
-      accent: "bg-sky-50",
-      border: "border-sky-200",
-      hover: "hover:bg-sky-700",
-      focus: "focus:ring-sky-500 focus:border-sky-500",
-      checkbox: "text-sky-600",
-    },
-    {
-      primary: "bg-violet-100 text-violet-800",
-      secondary: "bg-violet-600 text-white",
-      accent: "bg-violet-50",
-      border: "border-violet-200",
-      hover: "hover:bg-violet-700",
-      focus: "focus:ring-violet-500 focus:border-violet-500",
-      checkbox: "text-violet-600",
-    },
-    {
-      primary: "bg-teal-100 text-teal-800",
-      secondary: "bg-teal-600 text-white",
-      accent: "bg-teal-50",
-      border: "border-teal-200",
-      hover: "hover:bg-teal-700",
-      focus: "focus:ring-teal-500 focus:border-teal-500",
-      checkbox: "text-teal-600",
-    },
-  ];
-  return themes[Math.floor(Math.random() * themes.length)];
-};
+interface CountdownProps {
+  onComplete: () => void;
+  hint?: string;
+  controls?: ControlBindings;
+}
 
-const GameSetup: React.FC<GameSetupProps> = ({ onStartGame, isLoading }) => {
+const GameSetup: React.FC<GameSetupProps> = ({
+  onStartGame,
+  onShowHistory,
+  onShowSettings,
+  onShowDecks,
+  onShowRoom,
+  room,
+  allowCustomCategories,
+  customCategoriesNeedInternet,
+  isLoading,
+}) => {
+  const { t, locale } = useTranslation();
   const [duration, setDuration] = useState<number>(1);
   const [selectedCategories, setSelectedCategories] = useState<Set<string>>(
     new Set(["misc"])
   );
   const [customCategory, setCustomCategory] = useState("");
+  const [seenCount, setSeenCount] = useState(() => getSeenPrompts().size);
+  const [teamMode, setTeamMode] = useState(false);
+  const [tiltControls, setTiltControls] = useState(false);
+  const [tiltError, setTiltError] = useState<string | null>(null);
+  const [rounds, setRounds] = useState<number>(3);
+  const [difficulty, setDifficulty] = useState<Difficulty | undefined>();
+  const [weightedScoring, setWeightedScoring] = useState(false);
+  const [rules, setRules] = useState<ScoringRules>(DEFAULT_RULES);
+  const [familyMode, setFamilyMode] = useState(() => loadFamilyMode());
+  const [teamDrafts, setTeamDrafts] = useState<TeamDraft[]>(() =>
+    createDefaultTeams(MIN_TEAMS, t("setup.team")).map((team) => ({
+      name: team.name,
+      players: "",
+    }))
+  );
   const theme = useState(() => getRandomPastelTheme())[0];
+  const allCategories = useState(() => getAllCategories(locale))[0];
+  const visibleCategories = allowCustomCategories
+    ? allCategories
+    : allCategories.filter((cat) => cat.id !== "custom");
+
+  const handleTeamCountChange = (count: number) => {
+    setTeamDrafts((prev) =>
+      createDefaultTeams(count, t("setup.team")).map(
+        (team, i) => prev[i] ?? { name: team.name, players: "" }
+      )
+    );
+  };
+
+  const updateFamilyMode = (next: FamilyModeSettings) => {
+    setFamilyMode(next);
+    saveFamilyMode(next);
+  };
+
+  const updateRules = (changes: Partial<ScoringRules>) =>
+    setRules((prev) => ({ ...prev, ...changes }));
+
+  const customCategoryOffline =
+    customCategoriesNeedInternet && !navigator.onLine;
+  const savedCustomPrompts = customCategoryOffline
+    ? getCachedPromptCount(customCategory, locale)
+    : 0;
+
+  const handleResetSeenPrompts = () => {
+    resetSeenPrompts();
+    setSeenCount(0);
+  };
+
+  const handleTiltToggle = async (enabled: boolean) => {
+    setTiltError(null);
+    if (!enabled) {
+      setTiltControls(false);
+      return;
+    }
+
+    // Must run inside the tap handler for iOS to show its permission prompt
+    const granted = await requestTiltPermission();
+    setTiltControls(granted);
+    if (!granted) {
+      setTiltError(t("setup.tiltDenied"));
+    }
+  };
+
+  const updateTeamDraft = (index: number, update: Partial<TeamDraft>) => {
+    setTeamDrafts((prev) =>
+      prev.map((draft, i) => (i === index ? { ...draft, ...update } : draft))
+    );
+  };
 
   const handleCategoryClick = (categoryId: string, isCheckbox: boolean) => {
     setSelectedCategories((prev) => {
@@ -156,34 +291,66 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStartGame, isLoading }) => {
   };
 
   const handleStartGame = () => {
-    const selectedCategoryObjects: Category[] = ALL_CATEGORIES.filter((cat) =>
-      selectedCategories.has(cat.id)
+    const selectedCategoryObjects: Category[] = getSelectedCategories(
+      allCategories,
+      selectedCategories,
+      customCategory
     );
 
-    if (selectedCategories.has("custom") && customCategory.trim()) {
-      const customCategoryObj = {
-        id: "custom",
-        name: customCategory.trim(),
-        prompt: customCategory.trim(),
-      };
-      selectedCategoryObjects.push(customCategoryObj);
-    }
-
-    onStartGame(duration, selectedCategoryObjects);
+    const teams: Team[] = teamMode
+      ? teamDrafts.map((draft) => ({
+          name: draft.name.trim(),
+          players: draft.players
+            .split(",")
+            .map((player) => player.trim())
+            .filter(Boolean),
+        }))
+      : [];
+
+    onStartGame({
+      duration,
+      categories: selectedCategoryObjects,
+      teams,
+      rounds: teamMode ? rounds : 1,
+      tiltControls,
+      difficulty,
+      weightedScoring,
+      rules,
+      familyMode: familyMode.enabled,
+      locale,
+    });
   };
 
   return (
     <div
-      className={`flex flex-col items-center justify-start min-h-screen ${theme.accent} p-6`}
+      className={`flex flex-col items-center justify-start h-screen overflow-y-auto ${theme.accent} p-6`}
     >
       <div className="w-full max-w-md space-y-8">
-        <h1
-          className={`text-5xl font-bold text-center ${
-            theme.primary.split(" ")[1]
-          } tracking-tight`}
-        >
-          Charader
-        </h1>
+        <div className="relative">
+          <h1
+            className={`text-5xl font-bold text-center ${
+              theme.primary.split(" ")[1]
+            } tracking-tight`}
+          >
+            Charader
+          </h1>
+          <button
+            onClick={onShowHistory}
+            disabled={isLoading}
+            className={`absolute right-0 top-1/2 -translate-y-1/2 p-2 rounded-lg ${theme.primary} disabled:opacity-50`}
+            aria-label={t("setup.history")}
+          >
+            <History />
+          </button>
+          <button
+            onClick={onShowSettings}
+            disabled={isLoading}
+            className={`absolute left-0 top-1/2 -translate-y-1/2 p-2 rounded-lg ${theme.primary} disabled:opacity-50`}
+            aria-label={t("common.settings")}
+          >
+            <SettingsIcon />
+          </button>
+        </div>
 
         <div className="space-y-6">
           <label className="block">
@@ -192,7 +359,7 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStartGame, isLoading }) => {
                 theme.primary.split(" ")[1]
               } mb-3 block`}
             >
-              Round Duration
+              {t("setup.roundDuration")}
             </span>
             <select
               value={duration}
@@ -200,27 +367,158 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStartGame, isLoading }) => {
               className={`mt-2 block w-full rounded-xl py-3.5 px-4 shadow-sm ${theme.border} ${theme.focus} text-lg`}
               disabled={isLoading}
             >
-              <option value={0.5}>30 seconds</option>
-              <option value={1}>1 minute</option>
-              <option value={2}>2 minutes</option>
-              <option value={3}>3 minutes</option>
-              <option value={4}>4 minutes</option>
-              <option value={5}>5 minutes</option>
+              <option value={0.5}>{t("setup.seconds", { count: 30 })}</option>
+              <option value={1}>{t("setup.minutes", { count: 1 })}</option>
+              {[2, 3, 4, 5].map((count) => (
+                <option key={count} value={count}>
+                  {t("setup.minutes", { count })}
+                </option>
+              ))}
             </select>
           </label>
 
+          <div className="block">
+            <label className="block">
+              <span
+                className={`text-xl font-medium ${
+                  theme.primary.split(" ")[1]
+                } mb-3 block`}
+              >
+                {t("setup.difficulty")}
+              </span>
+              <select
+                value={difficulty ?? ""}
+                onChange={(e) =>
+                  setDifficulty(DIFFICULTIES.find((d) => d === e.target.value))
+                }
+                className={`mt-2 block w-full rounded-xl py-3.5 px-4 shadow-sm ${theme.border} ${theme.focus} text-lg`}
+                disabled={isLoading}
+              >
+                <option value="">{t("difficulty.mixed")}</option>
+                {DIFFICULTIES.map((level) => (
+                  <option key={level} value={level}>
+                    {t(`difficulty.${level}`)}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="mt-3 flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={weightedScoring}
+                onChange={(e) => setWeightedScoring(e.target.checked)}
+                disabled={isLoading}
+                className={`rounded-lg w-5 h-5 ${theme.checkbox} ${theme.focus} ${theme.border}`}
+              />
+              <span className={theme.primary.split(" ")[1]}>
+                {t("setup.weightedScoring")}
+              </span>
+            </label>
+          </div>
+
+          <div className="block">
+            <span
+              className={`text-xl font-medium ${
+                theme.primary.split(" ")[1]
+              } mb-3 block`}
+            >
+              {t("setup.rules")}
+            </span>
+            <div
+              className={`space-y-4 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+            >
+              <div className="flex space-x-4">
+                <label className="block flex-1">
+                  <span className="font-medium mb-1 block">
+                    {t("setup.maxSkips")}
+                  </span>
+                  <select
+                    value={rules.maxSkips ?? ""}
+                    onChange={(e) =>
+                      updateRules({
+                        maxSkips:
+                          e.target.value === "" ? null : Number(e.target.value),
+                      })
+                    }
+                    className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+                    disabled={isLoading}
+                  >
+                    <option value="">{t("setup.unlimited")}</option>
+                    {[0, 1, 2, 3, 5].map((count) => (
+                      <option key={count} value={count}>
+                        {count}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block flex-1">
+                  <span className="font-medium mb-1 block">
+                    {t("setup.skipPenalty")}
+                  </span>
+                  <select
+                    value={rules.skipPenalty}
+                    onChange={(e) =>
+                      updateRules({ skipPenalty: Number(e.target.value) })
+                    }
+                    className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+                    disabled={isLoading}
+                  >
+                    {[0, 1, 2].map((count) => (
+                      <option key={count} value={count}>
+                        {t("setup.pointCount", { count })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <label className="block">
+                <span className="font-medium mb-1 block">
+                  {t("setup.streakBonus", { count: STREAK_LENGTH })}
+                </span>
+                <select
+                  value={rules.streakBonus}
+                  onChange={(e) =>
+                    updateRules({ streakBonus: Number(e.target.value) })
+                  }
+                  className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+                  disabled={isLoading}
+                >
+                  {[0, 1, 2, 3].map((count) => (
+                    <option key={count} value={count}>
+                      {t("setup.pointCount", { count })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={rules.skipTimePenalty}
+                  onChange={(e) =>
+                    updateRules({ skipTimePenalty: e.target.checked })
+                  }
+                  disabled={isLoading}
+                  className={`rounded-lg w-5 h-5 ${theme.checkbox} ${theme.focus} ${theme.border}`}
+                />
+                <span>
+                  {t("setup.skipTimePenalty", { seconds: SKIP_TIME_PENALTY })}
+                </span>
+              </label>
+            </div>
+          </div>
+
           <div className="block">
             <span
               className={`text-xl font-medium ${
                 theme.primary.split(" ")[1]
               } mb-3 block`}
             >
-              Categories
+              {t("setup.categories")}
             </span>
             <div
               className={`max-h-72 overflow-y-auto space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
             >
-              {ALL_CATEGORIES.map((cat) => (
+              {visibleCategories.map((cat) => (
                 <div
                   key={cat.id}
                   className={`flex items-center space-x-3 p-3 rounded-lg cursor-pointer ${
@@ -262,6 +560,26 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStartGame, isLoading }) => {
                 </div>
               ))}
             </div>
+            <button
+              onClick={handleResetSeenPrompts}
+              disabled={isLoading || seenCount === 0}
+              className={`mt-2 text-sm underline ${
+                theme.primary.split(" ")[1]
+              } disabled:opacity-50 disabled:no-underline`}
+            >
+              {seenCount > 0
+                ? t("setup.resetSeen", { count: seenCount })
+                : t("setup.noSeen")}
+            </button>
+            <button
+              onClick={onShowDecks}
+              disabled={isLoading}
+              className={`mt-2 ml-4 text-sm underline ${
+                theme.primary.split(" ")[1]
+              } disabled:opacity-50`}
+            >
+              {t("setup.manageDecks")}
+            </button>
           </div>
 
           {selectedCategories.has("custom") && (
@@ -271,46 +589,199 @@ const GameSetup: React.FC<GameSetupProps> = ({ onStartGame, isLoading }) => {
                   theme.primary.split(" ")[1]
                 } mb-3 block`}
               >
-                Custom Category
+                {t("setup.customCategory")}
               </span>
               <input
                 type="text"
                 value={customCategory}
                 onChange={(e) => setCustomCategory(e.target.value)}
-                placeholder="Enter your category (e.g., Disney Characters)"
+                placeholder={t("setup.customPlaceholder")}
                 className={`mt-2 block w-full rounded-xl py-3.5 px-4 shadow-sm ${theme.border} ${theme.focus} text-lg`}
                 disabled={isLoading}
               />
+              {customCategoryOffline && customCategory.trim() && (
+                <p className={`mt-2 ${theme.primary.split(" ")[1]}`}>
+                  {savedCustomPrompts > 0
+                    ? t("setup.customSaved", { count: savedCustomPrompts })
+                    : t("setup.customNotSaved")}
+                </p>
+              )}
             </label>
           )}
+
+          <FamilyModeToggle
+            value={familyMode}
+            onChange={updateFamilyMode}
+            theme={theme}
+            disabled={isLoading}
+          />
+
+          {isTiltSupported() && (
+            <div className="block">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={tiltControls}
+                  onChange={(e) => handleTiltToggle(e.target.checked)}
+                  disabled={isLoading}
+                  className={`rounded-lg w-5 h-5 ${theme.checkbox} ${theme.focus} ${theme.border}`}
+                />
+                <span
+                  className={`text-xl font-medium ${
+                    theme.primary.split(" ")[1]
+                  }`}
+                >
+                  {t("setup.tiltControls")}
+                </span>
+              </label>
+              <p className={`mt-1 ml-8 ${theme.primary.split(" ")[1]}`}>
+                {tiltError ?? t("setup.tiltHelp")}
+              </p>
+            </div>
+          )}
+
+          <div className="block">
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={teamMode}
+                onChange={(e) => setTeamMode(e.target.checked)}
+                disabled={isLoading}
+                className={`rounded-lg w-5 h-5 ${theme.checkbox} ${theme.focus} ${theme.border}`}
+              />
+              <span
+                className={`text-xl font-medium ${theme.primary.split(" ")[1]}`}
+              >
+                {t("setup.teamMode")}
+              </span>
+            </label>
+          </div>
+
+          {teamMode && (
+            <div
+              className={`space-y-4 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+            >
+              <div className="flex space-x-4">
+                <label className="block flex-1">
+                  <span className="text-lg font-medium mb-1 block">
+                    {t("setup.teams")}
+                  </span>
+                  <select
+                    value={teamDrafts.length}
+                    onChange={(e) =>
+                      handleTeamCountChange(Number(e.target.value))
+                    }
+                    className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+                    disabled={isLoading}
+                  >
+                    {Array.from(
+                      { length: MAX_TEAMS - MIN_TEAMS + 1 },
+                      (_, i) => MIN_TEAMS + i
+                    ).map((count) => (
+                      <option key={count} value={count}>
+                        {t("setup.teamCount", { count })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block flex-1">
+                  <span className="text-lg font-medium mb-1 block">
+                    {t("setup.rounds")}
+                  </span>
+                  <select
+                    value={rounds}
+                    onChange={(e) => setRounds(Number(e.target.value))}
+                    className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+                    disabled={isLoading}
+                  >
+                    {Array.from({ length: MAX_ROUNDS }, (_, i) => i + 1).map(
+                      (count) => (
+                        <option key={count} value={count}>
+                          {t("setup.roundCount", { count })}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+              </div>
+
+              {teamDrafts.map((draft, index) => (
+                <div key={index} className="space-y-2">
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) =>
+                      updateTeamDraft(index, { name: e.target.value })
+                    }
+                    placeholder={t("setup.teamName")}
+                    className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus} font-medium`}
+                    disabled={isLoading}
+                  />
+                  <input
+                    type="text"
+                    value={draft.players}
+                    onChange={(e) =>
+                      updateTeamDraft(index, { players: e.target.value })
+                    }
+                    placeholder={t("setup.players")}
+                    className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+                    disabled={isLoading}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         <button
           onClick={handleStartGame}
           disabled={
             isLoading ||
-            (selectedCategories.has("custom") && !customCategory.trim())
+            (selectedCategories.has("custom") &&
+              (!customCategory.trim() ||
+                (customCategoryOffline && savedCustomPrompts === 0))) ||
+            (teamMode && teamDrafts.some((draft) => !draft.name.trim()))
           }
           className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed relative shadow-lg transform transition-transform active:scale-[0.98]`}
         >
           {isLoading ? (
             <>
-              <span className="opacity-0">Start Game</span>
+              <span className="opacity-0">{t("setup.startGame")}</span>
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
               </div>
             </>
           ) : (
-            "Start Game"
+            t("setup.startGame")
           )}
         </button>
+
+        <button
+          onClick={onShowRoom}
+          disabled={isLoading}
+          className={`w-full flex items-center justify-center py-3 px-6 font-semibold rounded-xl ${theme.primary} disabled:opacity-50`}
+        >
+          <Users className="mr-2" />
+          {room
+            ? t("setup.roomOpen", {
+                code: room.code,
+                count: room.players.length,
+              })
+            : t("setup.room")}
+        </button>
       </div>
     </div>
   );
 };
 
-const Countdown: React.FC<CountdownProps> = ({ onComplete }) => {
+const Countdown: React.FC<CountdownProps> = ({
+  onComplete,
+  hint,
+  controls,
+}) => {
+  const { t } = useTranslation();
   const [count, setCount] = useState(3);
+  const showLegend = useState(() => hasPhysicalControls())[0];
 
   const playCountdownSound = (number: number) => {
     const audioContext = new (window.AudioContext ||
@@ -362,8 +833,25 @@ const Countdown: React.FC<CountdownProps> = ({ onComplete }) => {
     <div className="fixed inset-0 flex items-center justify-center bg-purple-50">
       <div className="text-center">
         <div className="text-8xl font-bold text-purple-800 animate-bounce">
-          {count > 0 ? count : "GO!"}
+          {count > 0 ? count : t("countdown.go")}
         </div>
+        {hint && (
+          <div className="mt-8 text-xl text-purple-600 opacity-75">{hint}</div>
+        )}
+        {controls && showLegend && (
+          <div className="mt-8 space-y-1 text-lg text-purple-600">
+            {CONTROL_ACTIONS.filter(
+              (action) => controls[action].length > 0
+            ).map((action) => (
+              <div key={action}>
+                <span className="font-semibold">
+                  {t(`controls.${action}`)}:
+                </span>{" "}
+                {controls[action].map(formatInput).join(", ")}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -375,73 +863,111 @@ const GameScreen: React.FC<GameScreenProps> = ({
   category,
   onGameEnd,
   promptCategories,
+  promptDifficulties,
+  promptHints,
+  difficulty,
+  familyMode,
+  rules,
+  tiltControls,
+  controls,
+  provider,
+  team,
+  onPresenterUpdate,
+  room,
 }) => {
-  const [timeLeft, setTimeLeft] = useState<number>(duration * 60);
-  const [currentPromptIndex, setCurrentPromptIndex] = useState<number>(0);
-  const [results, setResults] = useState<GameResult[]>([]);
-  const [gameState, setGameState] = useState<GameState>({
-    availablePrompts: initialPrompts,
-    usedPrompts: [],
-    isLoadingMore: false,
-    promptCategories,
+  const { t, locale } = useTranslation();
+  const [round, dispatch] = useReducer(roundReducer, null, () =>
+    createRoundState(
+      initialPrompts.map((text) => ({
+        text,
+        category: promptCategories[text],
+        difficulty: promptDifficulties[text],
+        hint: promptHints[text],
+      })),
+      rules.maxSkips
+    )
+  );
+  const {
+    secondsLeft: timeLeft,
+    addTime,
+    reset: resetTimer,
+  } = useRoundTimer(duration * 60, isTimerRunning(round), {
+    onSecond: (seconds) => {
+      if (seconds > 0 && seconds < 10) playCountdownBeep();
+    },
+    onExpire: () => {
+      playGameEndSound();
+      dispatch({ type: "end" });
+    },
+  });
+  const { phase, results, outOfPrompts } = round;
+  const isPaused = phase === "paused";
+  const currentPrompt = getCurrentPrompt(round);
+  const shouldFetch = needsMorePrompts(round);
+  const retryDelayMs = getFetchRetryDelayMs(round);
+  const knownPrompts = round.prompts;
+
+  const onGameEndRef = useRef(onGameEnd);
+
+  useEffect(() => {
+    onGameEndRef.current = onGameEnd;
   });
-  const [showCountdown, setShowCountdown] = useState(true);
 
   useEffect(() => {
-    // Check if we need to fetch more prompts
-    if (
-      gameState.availablePrompts.length - currentPromptIndex <= 10 &&
-      !gameState.isLoadingMore
-    ) {
-      const fetchMorePrompts = async () => {
-        setGameState((prev) => ({ ...prev, isLoadingMore: true }));
-        try {
-          const exclusionText =
-            gameState.usedPrompts.length > 0
-              ? `\nDo not include any of these items:\n${gameState.usedPrompts.join(
-                  "\n"
-                )}`
-              : "";
-
-          const completion = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-              {
-                role: "user",
-                content: BASE_PROMPT.replace("{count}", "60")
-                  .replace("{category}", category.prompt)
-                  .replace("{exclusions}", exclusionText),
-              },
-            ],
-            temperature: 2,
-          });
-
-          const newPrompts = shuffleArray(
-            completion.choices[0].message.content
-              ?.split("\n")
-              .map((line) => line.replace(/^\d+\.\s*/, ""))
-              .filter(Boolean) || []
-          );
-
-          setGameState((prev) => ({
-            ...prev,
-            availablePrompts: [...prev.availablePrompts, ...newPrompts],
-            isLoadingMore: false,
-          }));
-        } catch (error) {
+    // Results are only read once the round has ended, so the last answer
+    // always counts
+    if (phase === "ended") onGameEndRef.current(results, outOfPrompts);
+  }, [phase, results, outOfPrompts]);
+
+  useEffect(() => {
+    if (!shouldFetch) return;
+
+    const fetchPrompts = () => {
+      dispatch({ type: "fetchStarted" });
+      provider
+        .generatePrompts({
+          category,
+          count: 60,
+          exclusions: knownPrompts.map((prompt) => prompt.text),
+          // High temperatures make unsuitable suggestions more likely
+          temperature: familyMode ? 1 : 2,
+          difficulty,
+          familyMode,
+          locale,
+        })
+        .then((options) =>
+          dispatch({
+            type: "promptsLoaded",
+            prompts: shuffleArray(options).map((option) => ({
+              text: option.text,
+              category: category.name,
+              difficulty: getOptionDifficulty(option),
+              hint: option.hint,
+            })),
+            now: Date.now(),
+          })
+        )
+        .catch((error) => {
           console.error("Failed to fetch more prompts:", error);
-          setGameState((prev) => ({ ...prev, isLoadingMore: false }));
-        }
-      };
+          dispatch({ type: "fetchFailed" });
+        });
+    };
 
-      fetchMorePrompts();
+    if (retryDelayMs === 0) {
+      fetchPrompts();
+      return;
     }
+    const retryTimer = setTimeout(fetchPrompts, retryDelayMs);
+    return () => clearTimeout(retryTimer);
   }, [
-    category.prompt,
-    currentPromptIndex,
-    gameState.availablePrompts.length,
-    gameState.isLoadingMore,
-    gameState.usedPrompts,
+    category,
+    difficulty,
+    familyMode,
+    knownPrompts,
+    locale,
+    provider,
+    retryDelayMs,
+    shouldFetch,
   ]);
 
   const playSound = (correct: boolean) => {
@@ -529,48 +1055,105 @@ const GameScreen: React.FC<GameScreenProps> = ({
     oscillator.stop(audioContext.currentTime + 0.6);
   };
 
+  const skipsLeft = getSkipsLeft(round);
+  const correctCount = results.filter((r) => r.correct).length;
+
   const handleResult = (correct: boolean): void => {
+    if (!canAnswer(round, correct)) return;
     playSound(correct);
 
-    const currentPrompt = gameState.availablePrompts[currentPromptIndex];
+    if (!correct && rules.skipTimePenalty) {
+      addTime(-SKIP_TIME_PENALTY * 1000);
+    }
+
+    room?.send({
+      type: "score",
+      correct,
+      correctCount: correctCount + (correct ? 1 : 0),
+      skippedCount: results.length - correctCount + (correct ? 0 : 1),
+    });
+    dispatch({ type: "answer", correct, now: Date.now() });
+  };
+
+  const { calibrate } = useTiltControls(
+    tiltControls,
+    (direction: TiltDirection) => handleResult(direction === "down")
+  );
+
+  const pause = () => dispatch({ type: "pause", now: Date.now() });
+  const resume = () => dispatch({ type: "resume", now: Date.now() });
 
-    setResults((prev) => [...prev, { prompt: currentPrompt, correct }]);
-    setGameState((prev) => ({
-      ...prev,
-      usedPrompts: [...prev.usedPrompts, currentPrompt],
-    }));
+  const currentCategory = currentPrompt?.category;
 
-    // If we're out of prompts and still loading, don't increment the index
-    if (
-      currentPromptIndex >= gameState.availablePrompts.length - 1 &&
-      gameState.isLoadingMore
-    ) {
-      return;
+  useEffect(() => {
+    // Everything but the prompt, which only the actor may see
+    onPresenterUpdate({
+      phase:
+        phase === "countdown"
+          ? "countdown"
+          : phase === "paused"
+          ? "paused"
+          : "playing",
+      timeLeft,
+      correct: correctCount,
+      skipped: results.length - correctCount,
+      category: currentCategory ?? category.name,
+      team,
+    });
+  }, [
+    category.name,
+    correctCount,
+    currentCategory,
+    onPresenterUpdate,
+    phase,
+    results.length,
+    team,
+    timeLeft,
+  ]);
+
+  // Hidden again during the countdown and pauses, same as on this screen
+  const actorPrompt = currentPrompt?.text ?? null;
+  const roomSend = room?.send;
+  const actor = room?.room?.players.find(
+    (player) => player.id === room.room?.actorId
+  );
+
+  useEffect(() => {
+    roomSend?.({ type: "prompt", prompt: actorPrompt });
+  }, [actorPrompt, roomSend]);
+
+  // Tilts, buttons and the actor's phone only score while a prompt is shown,
+  // which handleResult checks
+  useRoomActions(room, (action) => handleResult(action === "correct"));
+
+  useGameControls(controls, (action) => {
+    if (action === "pause") {
+      if (isPaused) resume();
+      else pause();
+    } else {
+      handleResult(action === "correct");
     }
+  });
 
-    setCurrentPromptIndex((prev) => prev + 1);
+  const restartRound = () => {
+    resetTimer();
+    dispatch({ type: "restart" });
   };
 
+  const isRunning = isTimerRunning(round);
+
   useEffect(() => {
-    if (showCountdown) return;
-
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          playGameEndSound();
-          onGameEnd(results);
-          return 0;
-        }
-        if (prev <= 10) {
-          playCountdownBeep();
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    if (!isRunning) return;
+
+    // Pause automatically when the phone locks or the app is switched away
+    const handleVisibilityChange = () => {
+      if (document.hidden) dispatch({ type: "pause", now: Date.now() });
+    };
 
-    return () => clearInterval(timer);
-  }, [onGameEnd, results, showCountdown]);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [isRunning]);
 
   useEffect(() => {
     // Save original body style
@@ -588,8 +1171,18 @@ const GameScreen: React.FC<GameScreenProps> = ({
   const minutes = Math.floor(timeLeft / 60);
   const seconds = timeLeft % 60;
 
-  if (showCountdown) {
-    return <Countdown onComplete={() => setShowCountdown(false)} />;
+  if (phase === "countdown") {
+    return (
+      <Countdown
+        onComplete={() => {
+          // Whatever position the phone is in at "GO!" counts as neutral
+          calibrate();
+          dispatch({ type: "countdownDone", now: Date.now() });
+        }}
+        hint={tiltControls ? t("countdown.tiltHint") : undefined}
+        controls={controls}
+      />
+    );
   }
 
   return (
@@ -599,95 +1192,352 @@ const GameScreen: React.FC<GameScreenProps> = ({
           <Timer className="mr-2" />
           {minutes}:{seconds.toString().padStart(2, "0")}
         </div>
+        {skipsLeft !== null && (
+          <div className="text-center text-lg opacity-90">
+            {t("game.skipsLeft", { count: skipsLeft })}
+          </div>
+        )}
+        <button
+          onClick={pause}
+          className="absolute right-4 top-4 z-10 p-2 rounded-lg bg-white/20 hover:bg-white/30"
+          aria-label={t("game.pause")}
+        >
+          <Pause />
+        </button>
       </div>
 
       <div className="flex-grow flex items-center justify-center p-4">
-        {currentPromptIndex >= gameState.availablePrompts.length ? (
+        {phase === "loading" ? (
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-800 mx-auto mb-4"></div>
             <h2 className="text-2xl font-bold text-purple-800">
-              Loading more prompts...
+              {round.fetchFailures > 0
+                ? t("game.retrying")
+                : t("game.loadingMore")}
             </h2>
           </div>
         ) : (
-          <div className="text-center">
-            <h1 className="text-6xl font-bold text-purple-800">
-              {gameState.availablePrompts[currentPromptIndex]}
-            </h1>
-            <div className="text-xl mt-6 text-purple-600 opacity-75">
-              {
-                gameState.promptCategories[
-                  gameState.availablePrompts[currentPromptIndex]
-                ]
-              }
+          currentPrompt && (
+            <div className="text-center">
+              <h1 className="text-6xl font-bold text-purple-800">
+                {actor
+                  ? t("room.isActing", { name: actor.name })
+                  : currentPrompt.text}
+              </h1>
+              {!actor && currentPrompt.hint && (
+                <div className="text-2xl mt-4 text-purple-700">
+                  {currentPrompt.hint}
+                </div>
+              )}
+              <div className="text-xl mt-6 text-purple-600 opacity-75">
+                {currentPrompt.category}
+              </div>
             </div>
-          </div>
+          )
         )}
       </div>
 
       <div className="fixed inset-0 flex pointer-events-none">
         <button
           onClick={() => handleResult(true)}
+          aria-label={t("controls.correct")}
           className="w-1/2 h-screen pointer-events-auto bg-green-500 bg-opacity-10 hover:bg-opacity-20 transition-colors duration-200"
         />
         <button
           onClick={() => handleResult(false)}
-          className="w-1/2 h-screen pointer-events-auto bg-orange-500 bg-opacity-10 hover:bg-opacity-20 transition-colors duration-200"
+          disabled={skipsLeft === 0}
+          aria-label={t("controls.skip")}
+          className="w-1/2 h-screen pointer-events-auto bg-orange-500 bg-opacity-10 hover:bg-opacity-20 disabled:bg-gray-500 transition-colors duration-200"
         />
       </div>
+
+      {isPaused && (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-purple-50 p-6">
+          <div className="w-full max-w-md space-y-4">
+            <h1 className="text-4xl font-bold text-center text-purple-800 mb-8">
+              {t("game.paused")}
+            </h1>
+            <button
+              onClick={resume}
+              className="w-full py-4 px-6 text-xl font-semibold rounded-xl bg-purple-600 text-white hover:bg-purple-700 shadow-lg transform transition-transform active:scale-[0.98]"
+            >
+              <div className="flex items-center justify-center">
+                <Play className="mr-2" />
+                {t("game.resume")}
+              </div>
+            </button>
+            <button
+              onClick={restartRound}
+              className="w-full py-4 px-6 text-xl font-semibold rounded-xl bg-purple-100 text-purple-800 hover:bg-purple-200 shadow-lg transform transition-transform active:scale-[0.98]"
+            >
+              <div className="flex items-center justify-center">
+                <RotateCcw className="mr-2" />
+                {t("game.restartRound")}
+              </div>
+            </button>
+            <button
+              onClick={() => dispatch({ type: "end" })}
+              className="w-full py-4 px-6 text-xl font-semibold rounded-xl bg-purple-100 text-purple-800 hover:bg-purple-200 shadow-lg transform transition-transform active:scale-[0.98]"
+            >
+              <div className="flex items-center justify-center">
+                <Square className="mr-2" />
+                {t("game.endNow")}
+              </div>
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-const GameEnd: React.FC<GameEndProps> = ({ results, onPlayAgain }) => {
+const Scoreboard: React.FC<ScoreboardProps> = ({
+  teams,
+  scores,
+  activeTeamIndex,
+}) => {
+  const leaders = getLeaders(scores);
+
+  return (
+    <div className="space-y-2">
+      {teams.map((team, index) => (
+        <div
+          key={index}
+          className={`flex items-center justify-between p-3 rounded-lg bg-white ${
+            index === activeTeamIndex ? "ring-2 ring-purple-400" : ""
+          }`}
+        >
+          <span className="flex items-center text-lg font-medium text-purple-800">
+            {leaders.includes(index) && scores[index] > 0 && (
+              <Trophy className="mr-2 h-5 w-5 text-amber-500" />
+            )}
+            {team.name}
+          </span>
+          <span className="text-xl font-bold text-purple-700">
+            {scores[index]}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const HandOff: React.FC<HandOffProps> = ({
+  teams,
+  scores,
+  turnIndex,
+  rounds,
+  isLoading,
+  onReady,
+}) => {
+  const { t } = useTranslation();
+  const theme = useState(() => getRandomPastelTheme())[0];
+  const { teamIndex, round, player } = getTurn(teams, turnIndex);
+
+  return (
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
+      <div className="w-full max-w-md mx-auto space-y-6">
+        <div className="text-lg text-center text-purple-600">
+          {t("handoff.round", { round: round + 1, rounds })}
+        </div>
+
+        <h1 className="text-4xl font-bold text-center text-purple-800">
+          {player
+            ? t("handoff.passPhone", { team: teams[teamIndex].name, player })
+            : t("handoff.yourTurn", { team: teams[teamIndex].name })}
+        </h1>
+
+        <div
+          className={`max-h-72 overflow-y-auto ${theme.primary} rounded-xl border ${theme.border} p-4`}
+        >
+          <Scoreboard
+            teams={teams}
+            scores={scores}
+            activeTeamIndex={teamIndex}
+          />
+        </div>
+
+        <button
+          onClick={onReady}
+          disabled={isLoading}
+          className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed relative shadow-lg transform transition-transform active:scale-[0.98]`}
+        >
+          {isLoading ? (
+            <>
+              <span className="opacity-0">{t("handoff.ready")}</span>
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
+              </div>
+            </>
+          ) : (
+            t("handoff.ready")
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const GameEnd: React.FC<GameEndProps> = ({
+  results,
+  weightedScoring,
+  rules,
+  onPlayAgain,
+  scoreboard,
+  onNextTurn,
+  outOfPrompts,
+}) => {
+  const { t } = useTranslation();
   const correctCount = results.filter((r) => r.correct).length;
+  const breakdown = getScoreBreakdown(results, weightedScoring, rules);
+  // Plain "correct / total" scoring doesn't need explaining
+  const showBreakdown =
+    weightedScoring || rules.streakBonus > 0 || rules.skipPenalty > 0;
   const theme = useState(() => getRandomPastelTheme())[0];
+  const winners =
+    scoreboard && !onNextTurn ? getLeaders(scoreboard.scores) : [];
 
   return (
-    <div className={`min-h-screen ${theme.accent} p-6`}>
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
       <div className="w-full max-w-md mx-auto space-y-6">
         <h1 className="text-4xl font-bold text-center text-purple-800">
-          Game Over!
+          {onNextTurn ? t("end.timesUp") : t("end.gameOver")}
         </h1>
+        {outOfPrompts && (
+          <p className="text-xl text-center text-purple-800">
+            {t("game.outOfPrompts")}
+          </p>
+        )}
+
+        {winners.length > 0 && (
+          <div className="text-2xl text-center font-semibold text-purple-800">
+            {winners.length === 1
+              ? t("end.wins", {
+                  team: scoreboard?.teams[winners[0]].name ?? "",
+                })
+              : t("end.tie", {
+                  teams: winners
+                    .map((i) => scoreboard?.teams[i].name)
+                    .join(t("end.and")),
+                })}
+          </div>
+        )}
 
         <div className="text-2xl text-center text-purple-700">
-          Score: {correctCount} / {results.length}
+          {showBreakdown
+            ? t("end.weightedScore", {
+                points: breakdown.total,
+                correct: correctCount,
+                total: results.length,
+              })
+            : t("end.score", { correct: correctCount, total: results.length })}
         </div>
 
+        {showBreakdown && (
+          <div
+            className={`space-y-1 ${theme.primary} rounded-xl border ${theme.border} p-4 text-lg`}
+          >
+            <div className="flex justify-between">
+              <span>{t("end.correctPoints")}</span>
+              <span>+{breakdown.correctPoints}</span>
+            </div>
+            {rules.streakBonus > 0 && (
+              <div className="flex justify-between">
+                <span>
+                  {t("end.streakBonus", {
+                    count: breakdown.streaks,
+                    length: STREAK_LENGTH,
+                  })}
+                </span>
+                <span>+{breakdown.streakPoints}</span>
+              </div>
+            )}
+            {rules.skipPenalty > 0 && (
+              <div className="flex justify-between">
+                <span>{t("end.skipPenalty", { count: breakdown.skips })}</span>
+                <span>−{breakdown.skipPoints}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold border-t pt-1">
+              <span>{t("end.total")}</span>
+              <span>{breakdown.total}</span>
+            </div>
+          </div>
+        )}
+
+        {scoreboard && (
+          <div
+            className={`${theme.primary} rounded-xl border ${theme.border} p-4`}
+          >
+            <Scoreboard {...scoreboard} />
+          </div>
+        )}
+
         <div
           className={`max-h-72 overflow-y-auto space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
         >
           {results.map((result, index) => (
             <div
               key={index}
-              className={`p-3 rounded-lg bg-white ${
+              className={`flex justify-between p-3 rounded-lg bg-white ${
                 result.correct ? "opacity-100" : "opacity-50"
               }`}
             >
-              {result.prompt}
+              <span>{result.prompt}</span>
+              {weightedScoring && result.correct && (
+                <span className="font-medium text-purple-700">
+                  +{getResultPoints(result, true)}
+                </span>
+              )}
+              {rules.skipPenalty > 0 && !result.correct && (
+                <span className="font-medium text-red-600">
+                  −{rules.skipPenalty}
+                </span>
+              )}
             </div>
           ))}
         </div>
 
-        <button
-          onClick={onPlayAgain}
-          className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 shadow-lg transform transition-transform active:scale-[0.98]`}
-        >
-          <div className="flex items-center justify-center">
-            <RotateCcw className="mr-2" />
-            Play Again
-          </div>
-        </button>
+        {onNextTurn ? (
+          <button
+            onClick={onNextTurn}
+            className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 shadow-lg transform transition-transform active:scale-[0.98]`}
+          >
+            <div className="flex items-center justify-center">
+              <ArrowRight className="mr-2" />
+              {t("end.nextTurn")}
+            </div>
+          </button>
+        ) : (
+          <button
+            onClick={onPlayAgain}
+            className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 shadow-lg transform transition-transform active:scale-[0.98]`}
+          >
+            <div className="flex items-center justify-center">
+              <RotateCcw className="mr-2" />
+              {t("end.playAgain")}
+            </div>
+          </button>
+        )}
       </div>
     </div>
   );
 };
 
-const isOnline = (): boolean => {
-  return navigator.onLine;
-};
+const getTurnScores = (
+  turnResults: GameResult[][],
+  { weightedScoring, rules }: GameConfig
+): number[] =>
+  Array.from(turnResults, (results) =>
+    results ? getScore(results, weightedScoring, rules) : 0
+  );
 
-const App: React.FC = () => {
+interface AppProps {
+  // Set once a new version of the app is waiting to be activated
+  applyUpdate?: () => Promise<void>;
+}
+
+const App: React.FC<AppProps> = ({ applyUpdate }) => {
   useEffect(() => {
     // Save original body style
     const originalStyle = window.getComputedStyle(document.body).overflow;
@@ -701,85 +1551,147 @@ const App: React.FC = () => {
     };
   }, []); // Empty dependency array since we want this to run once on mount
 
-  const [gameState, setGameState] = useState<"setup" | "playing" | "end">(
-    "setup"
-  );
+  const [gameState, setGameState] = useState<
+    | "setup"
+    | "history"
+    | "settings"
+    | "decks"
+    | "room"
+    | "handoff"
+    | "playing"
+    | "end"
+  >("setup");
   const [gameConfig, setGameConfig] = useState<GameConfig | null>(null);
   const [prompts, setPrompts] = useState<string[]>([]);
   const [results, setResults] = useState<GameResult[]>([]);
+  const [outOfPrompts, setOutOfPrompts] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [promptCategories, setPromptCategories] = useState<
     Record<string, string>
   >({});
+  const [promptDifficulties, setPromptDifficulties] = useState<
+    Record<string, Difficulty>
+  >({});
+  const [promptHints, setPromptHints] = useState<Record<string, string>>({});
+  const [turnIndex, setTurnIndex] = useState(0);
+  const [gameId, setGameId] = useState("");
+  const [turnResults, setTurnResults] = useState<GameResult[][]>([]);
+  const [playedPrompts, setPlayedPrompts] = useState<string[]>([]);
+  const [settings, setSettings] = useState<Settings>(() => loadSettings());
+  const [sharedDeck, setSharedDeck] = useState<CustomDeck | null>(null);
 
-  const startGame = async (
-    duration: number,
-    categories: Category[]
-  ): Promise<void> => {
-    try {
-      setIsLoading(true);
-      const allPrompts: string[] = [];
-      const promptsPerCategory = Math.ceil(50 / categories.length);
-      const _promptCategories: Record<string, string> = {};
-
-      if (categories.length === 1 && categories[0].id === "misc") {
-        categories = ALL_CATEGORIES.filter(
-          (c) => c.id !== "custom" && c.id !== "misc"
-        );
+  useEffect(() => {
+    // Decks shared as links arrive in the URL fragment
+    if (!hasSharedDeck()) return;
+
+    readSharedDeck().then((deck) => {
+      if (deck) {
+        setSharedDeck(deck);
+      } else {
+        clearSharedDeck();
       }
+    });
+  }, []);
 
-      for (const category of categories) {
-        let categoryPrompts: string[] = [];
-
-        if (category.id === "custom") {
-          if (!isOnline()) {
-            // In offline mode, use a default message for custom categories
-            categoryPrompts = ["Custom categories require internet connection"];
-          } else {
-            // Use ChatGPT for custom categories when online
-            const completion = await openai.chat.completions.create({
-              model: "gpt-4o-mini",
-              messages: [
-                {
-                  role: "user",
-                  content: BASE_PROMPT.replace(
-                    "{count}",
-                    promptsPerCategory.toString()
-                  )
-                    .replace("{category}", category.prompt)
-                    .replace("{exclusions}", ""),
-                },
-              ],
-              temperature: 1.5,
-            });
-
-            categoryPrompts =
-              completion.choices[0].message.content
-                ?.split("\n")
-                .map((line) => line.replace(/^\d+\.\s*/, ""))
-                .filter(Boolean) || [];
-          }
-        } else {
-          // Use predefined options for non-custom categories
-          categoryPrompts = getRandomOptionsForCategory(
-            category.id,
-            promptsPerCategory
-          );
-        }
+  const provider = useMemo(() => createPromptProvider(settings), [settings]);
+  const { send: sendToPresenter } = usePresenterLink(
+    settings.presenterRoom
+      ? { room: settings.presenterRoom, relayUrl: settings.presenterRelayUrl }
+      : null
+  );
+  const hostedRoom = useHostedRoom(settings.roomServerUrl);
+  const locale = settings.locale ?? detectLocale();
 
-        // Add each prompt to the category mapping
-        categoryPrompts.forEach((prompt) => {
-          _promptCategories[prompt] = category.name;
-        });
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
-        allPrompts.push(...categoryPrompts);
-      }
+  useEffect(() => {
+    // Generate queued custom categories now, or as soon as we're back online
+    const pregenerate = () =>
+      processPregenerateQueue(provider).catch((error) =>
+        console.error("Failed to pre-generate prompts:", error)
+      );
+
+    pregenerate();
+    window.addEventListener("online", pregenerate);
+    return () => window.removeEventListener("online", pregenerate);
+  }, [provider]);
 
-      const shuffledPrompts = shuffleArray(allPrompts);
-      setPrompts(shuffledPrompts);
-      setPromptCategories(_promptCategories);
-      setGameConfig({ duration, categories });
-      setGameState("playing");
+  const loadPrompts = async (
+    categories: Category[],
+    exclude: string[],
+    { difficulty, familyMode, locale }: GameConfig
+  ): Promise<void> => {
+    const allPrompts: string[] = [];
+    const promptsPerCategory = Math.ceil(50 / categories.length);
+    const _promptCategories: Record<string, string> = {};
+    const _promptDifficulties: Record<string, Difficulty> = {};
+    const _promptHints: Record<string, string> = {};
+
+    for (const category of categories) {
+      // Played prompts are marked as seen, so built-in decks only overlap an
+      // earlier turn once they have been recycled. Offline, custom categories
+      // are played from the prompts saved when they were last generated.
+      const categoryPrompts = await getInitialProvider(
+        category,
+        provider
+      ).generatePrompts({
+        category,
+        count: promptsPerCategory,
+        exclusions: exclude,
+        difficulty,
+        familyMode,
+        locale,
+      });
+
+      // Add each prompt to the category mapping
+      categoryPrompts.forEach((prompt) => {
+        _promptCategories[prompt.text] = category.name;
+        _promptDifficulties[prompt.text] = getOptionDifficulty(prompt);
+        if (prompt.hint) _promptHints[prompt.text] = prompt.hint;
+      });
+
+      allPrompts.push(...categoryPrompts.map((prompt) => prompt.text));
+    }
+
+    setPrompts(shuffleArray(allPrompts));
+    setPromptCategories(_promptCategories);
+    setPromptDifficulties(_promptDifficulties);
+    setPromptHints(_promptHints);
+  };
+
+  const beginRound = (): void => {
+    // The room server picks who acts this round
+    if (hostedRoom.isOpen) hostedRoom.send({ type: "startTurn" });
+    setGameState("playing");
+  };
+
+  const startGame = async (config: GameConfig): Promise<void> => {
+    let { categories } = config;
+
+    if (categories.length === 1 && categories[0].id === "misc") {
+      categories = getAllCategories(config.locale).filter(
+        (c) => c.id !== "custom" && c.id !== "misc"
+      );
+    }
+
+    setGameConfig({ ...config, categories });
+    setGameId(`${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    setTurnIndex(0);
+    setTurnResults([]);
+    setPlayedPrompts([]);
+
+    if (config.teams.length > 0) {
+      // Prompts are loaded when the first team confirms it has the phone
+      setGameState("handoff");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await loadPrompts(categories, [], config);
+      beginRound();
     } catch (error) {
       console.error("Failed to fetch prompts:", error);
     } finally {
@@ -787,36 +1699,236 @@ const App: React.FC = () => {
     }
   };
 
-  const endGame = (results: GameResult[]): void => {
+  const startTurn = async (): Promise<void> => {
+    if (!gameConfig) return;
+
+    try {
+      setIsLoading(true);
+      await loadPrompts(gameConfig.categories, playedPrompts, gameConfig);
+      beginRound();
+    } catch (error) {
+      console.error("Failed to fetch prompts:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isTeamGame = !!gameConfig && gameConfig.teams.length > 0;
+  const scores = gameConfig
+    ? getTeamScores(gameConfig.teams, getTurnScores(turnResults, gameConfig))
+    : [];
+  const hasMoreTurns =
+    isTeamGame &&
+    turnIndex + 1 < getTotalTurns(gameConfig.teams, gameConfig.rounds);
+  const activeTeam = isTeamGame
+    ? gameConfig.teams[getTurn(gameConfig.teams, turnIndex).teamIndex]
+    : undefined;
+
+  useEffect(() => {
+    // GameScreen reports the round itself; this covers before and after it
+    if (!gameConfig || (gameState !== "handoff" && gameState !== "end")) {
+      return;
+    }
+
+    const teamScores = getTeamScores(
+      gameConfig.teams,
+      getTurnScores(turnResults, gameConfig)
+    );
+    const correct = results.filter((r) => r.correct).length;
+    sendToPresenter({
+      phase: gameState === "end" ? "ended" : "handoff",
+      timeLeft: gameState === "end" ? 0 : gameConfig.duration * 60,
+      correct: gameState === "end" ? correct : 0,
+      skipped: gameState === "end" ? results.length - correct : 0,
+      team: activeTeam?.name,
+      results:
+        gameState === "end"
+          ? results.map(({ prompt, correct }) => ({ prompt, correct }))
+          : undefined,
+      scoreboard: gameConfig.teams.length
+        ? gameConfig.teams.map((team, i) => ({
+            team: team.name,
+            score: teamScores[i],
+          }))
+        : undefined,
+    });
+  }, [
+    activeTeam?.name,
+    gameConfig,
+    gameState,
+    results,
+    sendToPresenter,
+    turnResults,
+  ]);
+
+  const endGame = (results: GameResult[], outOfPrompts: boolean): void => {
+    if (hostedRoom.isOpen) hostedRoom.send({ type: "endTurn" });
     setResults(results);
+    setOutOfPrompts(outOfPrompts);
+    markPromptsSeen(results.map((r) => r.prompt));
+    setPlayedPrompts((prev) => [
+      ...new Set([...prev, ...results.map((r) => r.prompt)]),
+    ]);
+
+    // Keyed by turn, so a turn that ends twice is only counted once
+    const nextTurnResults = [...turnResults];
+    nextTurnResults[turnIndex] = results;
+    setTurnResults(nextTurnResults);
+
+    if (gameConfig && !hasMoreTurns) {
+      const isTeamGame = gameConfig.teams.length > 0;
+      saveGame({
+        id: gameId,
+        playedAt: Date.now(),
+        config: gameConfig,
+        results: nextTurnResults.flat(),
+        scores: isTeamGame
+          ? getTeamScores(
+              gameConfig.teams,
+              getTurnScores(nextTurnResults, gameConfig)
+            )
+          : undefined,
+      }).catch((error) => console.error("Failed to save game:", error));
+    }
+
     setGameState("end");
   };
 
+  const nextTurn = (): void => {
+    setTurnIndex((prev) => prev + 1);
+    setResults([]);
+    setGameState("handoff");
+  };
+
+  const updateSettings = (next: Settings): void => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const addSharedDeck = (): void => {
+    if (sharedDeck) saveCustomDeck(sharedDeck);
+    dismissSharedDeck();
+  };
+
+  const dismissSharedDeck = (): void => {
+    clearSharedDeck();
+    setSharedDeck(null);
+  };
+
   const resetGame = (): void => {
     setGameState("setup");
     setGameConfig(null);
     setPrompts([]);
     setResults([]);
+    setTurnIndex(0);
+    setTurnResults([]);
+    setPlayedPrompts([]);
   };
 
   return (
-    <div className="min-h-screen overflow-hidden">
-      {gameState === "setup" && (
-        <GameSetup onStartGame={startGame} isLoading={isLoading} />
-      )}
-      {gameState === "playing" && gameConfig && (
-        <GameScreen
-          duration={gameConfig.duration}
-          initialPrompts={prompts}
-          category={gameConfig.categories[0]}
-          onGameEnd={endGame}
-          promptCategories={promptCategories}
-        />
-      )}
-      {gameState === "end" && (
-        <GameEnd results={results} onPlayAgain={resetGame} />
-      )}
-    </div>
+    <LocaleContext.Provider value={locale}>
+      <div className="min-h-screen overflow-hidden">
+        {gameState === "setup" && sharedDeck && (
+          <SharedDeckPreview
+            deck={sharedDeck}
+            onAdd={addSharedDeck}
+            onDismiss={dismissSharedDeck}
+          />
+        )}
+        {gameState === "setup" && !sharedDeck && (
+          <GameSetup
+            onStartGame={startGame}
+            onShowHistory={() => setGameState("history")}
+            onShowSettings={() => setGameState("settings")}
+            onShowDecks={() => setGameState("decks")}
+            onShowRoom={() => setGameState("room")}
+            room={hostedRoom.room}
+            allowCustomCategories={provider.supportsCustomCategories}
+            customCategoriesNeedInternet={provider.requiresInternet}
+            isLoading={isLoading}
+          />
+        )}
+        {gameState === "decks" && (
+          <DeckEditor onBack={() => setGameState("setup")} />
+        )}
+        {gameState === "settings" && (
+          <SettingsScreen
+            settings={settings}
+            provider={provider}
+            onChange={updateSettings}
+            onBack={() => setGameState("setup")}
+          />
+        )}
+        {gameState === "room" && (
+          <RoomLobby
+            hostedRoom={hostedRoom}
+            serverUrl={settings.roomServerUrl}
+            onServerUrlChange={(roomServerUrl) =>
+              updateSettings({ ...settings, roomServerUrl })
+            }
+            onBack={() => setGameState("setup")}
+          />
+        )}
+        {gameState === "history" && (
+          <GameHistory onBack={() => setGameState("setup")} />
+        )}
+        {gameState === "handoff" && gameConfig && (
+          <HandOff
+            teams={gameConfig.teams}
+            scores={scores}
+            turnIndex={turnIndex}
+            rounds={gameConfig.rounds}
+            isLoading={isLoading}
+            onReady={startTurn}
+          />
+        )}
+        {gameState === "playing" && gameConfig && (
+          <GameScreen
+            key={turnIndex}
+            duration={gameConfig.duration}
+            initialPrompts={prompts}
+            category={gameConfig.categories[0]}
+            onGameEnd={endGame}
+            promptCategories={promptCategories}
+            promptDifficulties={promptDifficulties}
+            promptHints={promptHints}
+            difficulty={gameConfig.difficulty}
+            familyMode={gameConfig.familyMode}
+            rules={gameConfig.rules}
+            tiltControls={gameConfig.tiltControls}
+            controls={settings.controls}
+            provider={provider}
+            team={activeTeam?.name}
+            onPresenterUpdate={sendToPresenter}
+            room={hostedRoom.isOpen ? hostedRoom : undefined}
+          />
+        )}
+        {gameState === "end" && gameConfig && (
+          <GameEnd
+            results={results}
+            weightedScoring={gameConfig.weightedScoring}
+            rules={gameConfig.rules}
+            onPlayAgain={resetGame}
+            outOfPrompts={outOfPrompts}
+            scoreboard={
+              isTeamGame
+                ? {
+                    teams: gameConfig.teams,
+                    scores,
+                    activeTeamIndex: getTurn(gameConfig.teams, turnIndex)
+                      .teamIndex,
+                  }
+                : undefined
+            }
+            onNextTurn={hasMoreTurns ? nextTurn : undefined}
+          />
+        )}
+        {/* Never interrupt a round in progress */}
+        {applyUpdate && gameState !== "playing" && (
+          <UpdatePrompt onUpdate={applyUpdate} />
+        )}
+      </div>
+    </LocaleContext.Provider>
   );
 };
 
@@ -0,0 +1,119 @@
+import { Plus, X } from "lucide-react";
+import React, { useState } from "react";
+import {
+  CONTROL_ACTIONS,
+  ControlAction,
+  ControlBindings,
+  DEFAULT_BINDINGS,
+  bindInput,
+  formatInput,
+  unbindInput,
+  useInputCapture,
+} from "./controls";
+import { useTranslation } from "./i18n";
+import { getRandomPastelTheme } from "./theme";
+
+interface ControlsEditorProps {
+  value: ControlBindings;
+  onChange: (value: ControlBindings) => void;
+  theme: ReturnType<typeof getRandomPastelTheme>;
+}
+
+const ControlsEditor: React.FC<ControlsEditorProps> = ({
+  value,
+  onChange,
+  theme,
+}) => {
+  const { t } = useTranslation();
+  // The action waiting for its next key or button
+  const [capturing, setCapturing] = useState<ControlAction | null>(null);
+  const textColor = theme.primary.split(" ")[1];
+
+  useInputCapture(capturing !== null, (input) => {
+    if (capturing) onChange(bindInput(value, capturing, input));
+    setCapturing(null);
+  });
+
+  const startCapture = (action: ControlAction) => {
+    // Otherwise Space or Enter would press the focused button again
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+    setCapturing(action);
+  };
+
+  return (
+    <div className="block">
+      <span className={`text-xl font-medium ${textColor} mb-3 block`}>
+        {t("settings.controls")}
+      </span>
+      <p className={`mb-3 ${textColor}`}>{t("settings.controlsHelp")}</p>
+
+      <div
+        className={`space-y-3 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+      >
+        {CONTROL_ACTIONS.map((action) => (
+          <div key={action}>
+            <div className="font-medium mb-1">{t(`controls.${action}`)}</div>
+            <div className="flex flex-wrap gap-2">
+              {value[action].map((input) => {
+                const label = formatInput(input);
+                return (
+                  <span
+                    key={label}
+                    className="flex items-center rounded-lg bg-white py-1 pl-2 pr-1"
+                  >
+                    {label}
+                    <button
+                      onClick={() =>
+                        onChange(unbindInput(value, action, input))
+                      }
+                      className="ml-1 p-0.5 rounded hover:bg-gray-100"
+                      aria-label={t("decks.remove", { text: label })}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </span>
+                );
+              })}
+              {capturing === action ? (
+                <span className="py-1 px-2 rounded-lg bg-white animate-pulse">
+                  {t("controls.press")}
+                </span>
+              ) : (
+                <button
+                  onClick={() => startCapture(action)}
+                  className={`p-1 rounded-lg ${theme.secondary} ${theme.hover}`}
+                  aria-label={t("controls.add", {
+                    action: t(`controls.${action}`),
+                  })}
+                >
+                  <Plus className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex space-x-3">
+          {capturing && (
+            <button
+              onClick={() => setCapturing(null)}
+              className="flex-1 py-2 px-4 font-semibold rounded-xl bg-white"
+            >
+              {t("common.cancel")}
+            </button>
+          )}
+          <button
+            onClick={() => onChange(DEFAULT_BINDINGS)}
+            className="flex-1 py-2 px-4 font-semibold rounded-xl bg-white"
+          >
+            {t("controls.reset")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsEditor;
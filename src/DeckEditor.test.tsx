@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import DeckEditor from "./DeckEditor";
+
+// jsdom's File can't be read, so each one says how it reads
+const fileReading = (name: string, text: () => Promise<string>) => {
+  const file = new File([], name);
+  file.text = text;
+  return file;
+};
+
+const chooseFile = (file: File) =>
+  fireEvent.change(document.querySelector('input[type="file"]')!, {
+    target: { files: [file] },
+  });
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe("DeckEditor import", () => {
+  it("lists the decks in an imported file", async () => {
+    render(<DeckEditor onBack={() => {}} />);
+    chooseFile(
+      fileReading("Films.csv", () => Promise.resolve("prompt\nJaws\nUp"))
+    );
+
+    expect(await screen.findByText(/Films: \+2 prompts/)).toBeTruthy();
+  });
+
+  it("says where each issue is", async () => {
+    render(<DeckEditor onBack={() => {}} />);
+    chooseFile(
+      fileReading("Films.csv", () =>
+        Promise.resolve("prompt,difficulty\nJaws,epic\nUp,easy")
+      )
+    );
+
+    expect(await screen.findByText("Line 2:")).toBeTruthy();
+    expect(screen.getByText('Unknown difficulty "epic"')).toBeTruthy();
+    expect(screen.getByText(/Films: \+1 prompt\b/)).toBeTruthy();
+  });
+
+  it("shows a file that can't be read as an issue", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    render(<DeckEditor onBack={() => {}} />);
+    chooseFile(
+      fileReading("decks.json", () =>
+        Promise.reject(new Error("The file is unreadable"))
+      )
+    );
+
+    expect(await screen.findByText("The file couldn't be read")).toBeTruthy();
+    expect(screen.getByText("Nothing new to import")).toBeTruthy();
+  });
+});
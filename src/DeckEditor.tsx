@@ -0,0 +1,576 @@
+import {
+  ArrowLeft,
+  Download,
+  Pencil,
+  Plus,
+  Share2,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import QRCode from "qrcode";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  CustomDeck,
+  MAX_DECK_EMOJI_LENGTH,
+  MAX_DECK_NAME_LENGTH,
+  createDeckId,
+  deleteCustomDeck,
+  getCustomDecks,
+  saveCustomDeck,
+} from "./customDecks";
+import {
+  ExportableDeck,
+  ImportLocation,
+  ImportResult,
+  downloadFile,
+  exportDeckAsCsv,
+  exportDeckAsJson,
+  getExportableDecks,
+  importDeckFile,
+  loadExportableDeck,
+} from "./deckFiles";
+import { getShareUrl } from "./deckSharing";
+import { useTranslation } from "./i18n";
+import { DIFFICULTIES, Difficulty, MAX_PROMPT_LENGTH } from "./promptFormat";
+import { getRandomPastelTheme } from "./theme";
+import { PromptOption } from "./types";
+
+interface DeckEditorProps {
+  onBack: () => void;
+}
+
+interface DeckShareProps {
+  deck: CustomDeck;
+  onClose: () => void;
+}
+
+interface DeckFormProps {
+  deck: CustomDeck;
+  onSave: (deck: CustomDeck) => void;
+  onCancel: () => void;
+}
+
+const toFilename = (name: string) =>
+  name.replace(/[^\w-]+/g, "-").toLowerCase();
+
+const parseDifficulty = (value: string): Difficulty | undefined =>
+  DIFFICULTIES.find((difficulty) => difficulty === value);
+
+const DeckForm: React.FC<DeckFormProps> = ({ deck, onSave, onCancel }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState(deck.name);
+  const [emoji, setEmoji] = useState(deck.emoji);
+  const [options, setOptions] = useState<PromptOption[]>(deck.options);
+  const [newOption, setNewOption] = useState("");
+  const [newDifficulty, setNewDifficulty] = useState("");
+  const theme = useState(() => getRandomPastelTheme())[0];
+  const inputClass = `block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`;
+
+  const addOption = () => {
+    const text = newOption.trim();
+    if (!text) return;
+
+    // Ignore prompts already in the deck, whatever their capitalization
+    if (!options.some((o) => o.text.toLowerCase() === text.toLowerCase())) {
+      setOptions((prev) => [
+        ...prev,
+        { text, difficulty: parseDifficulty(newDifficulty) },
+      ]);
+    }
+    setNewOption("");
+  };
+
+  const updateOption = (index: number, update: Partial<PromptOption>) => {
+    setOptions((prev) =>
+      prev.map((option, i) => (i === index ? { ...option, ...update } : option))
+    );
+  };
+
+  const removeOption = (index: number) => {
+    setOptions((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...deck,
+      name: name.trim(),
+      emoji: emoji.trim() || "🃏",
+      options,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex space-x-3">
+        <input
+          type="text"
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          placeholder="🃏"
+          maxLength={MAX_DECK_EMOJI_LENGTH}
+          aria-label={t("decks.emoji")}
+          className={`${inputClass} w-16 text-center text-2xl`}
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("decks.name")}
+          maxLength={MAX_DECK_NAME_LENGTH}
+          className={`${inputClass} text-lg`}
+        />
+      </div>
+
+      <form
+        className="flex space-x-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addOption();
+        }}
+      >
+        <input
+          type="text"
+          value={newOption}
+          onChange={(e) => setNewOption(e.target.value)}
+          placeholder={t("decks.addPrompt")}
+          maxLength={MAX_PROMPT_LENGTH}
+          className={inputClass}
+        />
+        <select
+          value={newDifficulty}
+          onChange={(e) => setNewDifficulty(e.target.value)}
+          aria-label={t("setup.difficulty")}
+          className={`${inputClass} w-32`}
+        >
+          <option value="">{t("difficulty.any")}</option>
+          {DIFFICULTIES.map((difficulty) => (
+            <option key={difficulty} value={difficulty}>
+              {t(`difficulty.${difficulty}`)}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className={`p-2.5 rounded-xl ${theme.secondary} ${theme.hover}`}
+          aria-label={t("decks.addPromptLabel")}
+        >
+          <Plus />
+        </button>
+      </form>
+
+      <div
+        className={`max-h-72 overflow-y-auto space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+      >
+        {options.length === 0 && (
+          <div className="text-center opacity-75">{t("decks.noPrompts")}</div>
+        )}
+        {options.map((option, index) => (
+          <div
+            key={option.text}
+            className="flex items-center space-x-2 p-2 rounded-lg bg-white"
+          >
+            <span className="flex-grow">{option.text}</span>
+            <select
+              value={option.difficulty ?? ""}
+              onChange={(e) =>
+                updateOption(index, {
+                  difficulty: parseDifficulty(e.target.value),
+                })
+              }
+              aria-label={t("setup.difficulty")}
+              className="rounded-lg py-1 px-2 text-sm"
+            >
+              <option value="">{t("difficulty.any")}</option>
+              {DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>
+                  {t(`difficulty.${difficulty}`)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => removeOption(index)}
+              className="p-1 rounded-lg hover:bg-gray-100"
+              aria-label={t("decks.remove", { text: option.text })}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          onClick={onCancel}
+          className={`flex-1 py-3 px-6 text-lg font-semibold rounded-xl ${theme.primary}`}
+        >
+          {t("common.cancel")}
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || options.length === 0}
+          className={`flex-1 py-3 px-6 text-lg font-semibold rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {t("decks.save")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const DeckShare: React.FC<DeckShareProps> = ({ deck, onClose }) => {
+  const { t } = useTranslation();
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const theme = useState(() => getRandomPastelTheme())[0];
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const share = async () => {
+      const url = await getShareUrl(deck);
+      if (cancelled) return;
+
+      if (!url) {
+        downloadFile(
+          `${toFilename(deck.name)}.json`,
+          exportDeckAsJson(deck),
+          "application/json"
+        );
+        setStatus(t("decks.tooBig"));
+        return;
+      }
+
+      setShareUrl(url);
+      setQrCode(await QRCode.toDataURL(url, { errorCorrectionLevel: "L" }));
+    };
+
+    share().catch((error) => {
+      console.error("Failed to share deck:", error);
+      setStatus(t("decks.shareUnsupported"));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [deck, t]);
+
+  const copyLink = async () => {
+    if (!shareUrl) return;
+    if (navigator.share) {
+      await navigator
+        .share({ title: deck.name, url: shareUrl })
+        .catch(() => {});
+      return;
+    }
+    await navigator.clipboard.writeText(shareUrl);
+    setStatus(t("decks.linkCopied"));
+  };
+
+  return (
+    <div
+      className={`space-y-4 ${theme.primary} rounded-xl border ${theme.border} p-4 text-center`}
+    >
+      <div className="text-xl font-semibold">
+        {t("decks.shareTitle", { deck: `${deck.emoji} ${deck.name}` })}
+      </div>
+      {qrCode && (
+        <img
+          src={qrCode}
+          alt={t("decks.qrCode", { name: deck.name })}
+          className="mx-auto w-56 h-56 rounded-lg"
+        />
+      )}
+      {status && <div>{status}</div>}
+      <div className="flex space-x-3">
+        <button
+          onClick={onClose}
+          className="flex-1 py-2 px-4 font-semibold rounded-xl bg-white"
+        >
+          {t("decks.close")}
+        </button>
+        {shareUrl && (
+          <button
+            onClick={copyLink}
+            className={`flex-1 py-2 px-4 font-semibold rounded-xl ${theme.secondary} ${theme.hover}`}
+          >
+            {typeof navigator.share === "function"
+              ? t("decks.shareLink")
+              : t("decks.copyLink")}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DeckEditor: React.FC<DeckEditorProps> = ({ onBack }) => {
+  const { t } = useTranslation();
+  const [decks, setDecks] = useState<CustomDeck[]>(() => getCustomDecks());
+  const [editingDeck, setEditingDeck] = useState<CustomDeck | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [exportDeckId, setExportDeckId] = useState("");
+  const [sharingDeck, setSharingDeck] = useState<CustomDeck | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const theme = useState(() => getRandomPastelTheme())[0];
+  const exportableDecks = getExportableDecks();
+
+  const handleSave = (deck: CustomDeck) => {
+    saveCustomDeck(deck);
+    setDecks(getCustomDecks());
+    setEditingDeck(null);
+  };
+
+  // Never rejects: a file that can't be read is shown as an issue instead
+  const handleImportFile = async (file: File) => {
+    try {
+      setImportResult(
+        await importDeckFile(
+          file.name,
+          await file.text(),
+          t("decks.importedDeck")
+        )
+      );
+    } catch (error) {
+      console.error("Failed to import deck file:", error);
+      setImportResult({ decks: [], issues: [{ code: "unreadableFile" }] });
+    }
+  };
+
+  const describeLocation = (location?: ImportLocation) => {
+    if (!location) return t("decks.issueFile");
+    if ("line" in location) return t("decks.issueLine", location);
+    return location.prompt
+      ? t("decks.issueDeckPrompt", location)
+      : t("decks.issueDeck", location);
+  };
+
+  const confirmImport = () => {
+    importResult?.decks.forEach(({ deck }) => saveCustomDeck(deck));
+    setDecks(getCustomDecks());
+    setImportResult(null);
+  };
+
+  const handleExport = async (format: "json" | "csv") => {
+    let deck: ExportableDeck | undefined;
+    try {
+      deck = await loadExportableDeck(exportDeckId);
+    } catch (error) {
+      console.error("Failed to load deck:", error);
+    }
+    if (!deck) return;
+
+    const filename = toFilename(deck.name);
+    if (format === "json") {
+      downloadFile(
+        `${filename}.json`,
+        exportDeckAsJson(deck),
+        "application/json"
+      );
+    } else {
+      downloadFile(`${filename}.csv`, exportDeckAsCsv(deck), "text/csv");
+    }
+  };
+
+  const handleDelete = (deck: CustomDeck) => {
+    if (!window.confirm(t("decks.confirmDelete", { name: deck.name }))) return;
+    deleteCustomDeck(deck.id);
+    setDecks(getCustomDecks());
+  };
+
+  return (
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
+      <div className="w-full max-w-md mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={editingDeck ? () => setEditingDeck(null) : onBack}
+            className={`p-2 rounded-lg ${theme.primary}`}
+            aria-label={t("common.back")}
+          >
+            <ArrowLeft />
+          </button>
+          <h1 className="text-4xl font-bold text-center text-purple-800">
+            {t("decks.title")}
+          </h1>
+          <div className="w-10" />
+        </div>
+
+        {editingDeck ? (
+          <DeckForm
+            key={editingDeck.id}
+            deck={editingDeck}
+            onSave={handleSave}
+            onCancel={() => setEditingDeck(null)}
+          />
+        ) : (
+          <>
+            <div
+              className={`space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+            >
+              {decks.length === 0 && (
+                <div className="text-center opacity-75">{t("decks.empty")}</div>
+              )}
+              {decks.map((deck) => (
+                <div
+                  key={deck.id}
+                  className="flex items-center space-x-2 p-3 rounded-lg bg-white"
+                >
+                  <span className="flex-grow text-lg">
+                    {deck.emoji} {deck.name}
+                    <span className="ml-2 text-sm opacity-75">
+                      {t("common.prompts", { count: deck.options.length })}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => setSharingDeck(deck)}
+                    className="p-1 rounded-lg hover:bg-gray-100"
+                    aria-label={t("decks.share", { name: deck.name })}
+                  >
+                    <Share2 className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => setEditingDeck(deck)}
+                    className="p-1 rounded-lg hover:bg-gray-100"
+                    aria-label={t("decks.edit", { name: deck.name })}
+                  >
+                    <Pencil className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(deck)}
+                    className="p-1 rounded-lg hover:bg-gray-100"
+                    aria-label={t("decks.delete", { name: deck.name })}
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {sharingDeck && (
+              <DeckShare
+                key={sharingDeck.id}
+                deck={sharingDeck}
+                onClose={() => setSharingDeck(null)}
+              />
+            )}
+
+            <button
+              onClick={() =>
+                setEditingDeck({
+                  id: createDeckId(),
+                  name: "",
+                  emoji: "",
+                  options: [],
+                })
+              }
+              className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 shadow-lg transform transition-transform active:scale-[0.98]`}
+            >
+              <div className="flex items-center justify-center">
+                <Plus className="mr-2" />
+                {t("decks.newDeck")}
+              </div>
+            </button>
+
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = "";
+              }}
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              className={`w-full py-3 px-6 text-lg font-semibold rounded-xl ${theme.primary}`}
+            >
+              <div className="flex items-center justify-center">
+                <Upload className="mr-2" />
+                {t("decks.import")}
+              </div>
+            </button>
+
+            {importResult && (
+              <div
+                className={`space-y-3 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+              >
+                {importResult.decks.length === 0 ? (
+                  <div className="font-semibold">
+                    {t("decks.nothingToImport")}
+                  </div>
+                ) : (
+                  importResult.decks.map(({ deck, added }) => (
+                    <div key={deck.id} className="font-semibold">
+                      {t("decks.added", {
+                        deck: `${deck.emoji} ${deck.name}`,
+                        count: added,
+                      })}
+                    </div>
+                  ))
+                )}
+                {importResult.issues.length > 0 && (
+                  <ul className="max-h-40 overflow-y-auto text-sm space-y-1">
+                    {importResult.issues.map((issue, index) => (
+                      <li key={index}>
+                        <span className="font-medium">
+                          {describeLocation(issue.location)}:
+                        </span>{" "}
+                        {t(`decks.issue.${issue.code}`, issue.params)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => setImportResult(null)}
+                    className="flex-1 py-2 px-4 font-semibold rounded-xl bg-white"
+                  >
+                    {t("common.cancel")}
+                  </button>
+                  <button
+                    onClick={confirmImport}
+                    disabled={importResult.decks.length === 0}
+                    className={`flex-1 py-2 px-4 font-semibold rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                    {t("decks.importConfirm")}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex space-x-2">
+              <select
+                value={exportDeckId}
+                onChange={(e) => setExportDeckId(e.target.value)}
+                aria-label={t("decks.exportLabel")}
+                className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+              >
+                <option value="">{t("decks.exportPlaceholder")}</option>
+                {exportableDecks.map((deck) => (
+                  <option key={deck.id} value={deck.id}>
+                    {deck.emoji} {deck.name}
+                  </option>
+                ))}
+              </select>
+              {(["json", "csv"] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={!exportDeckId}
+                  className={`flex items-center px-3 rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  <Download className="mr-1 h-4 w-4" />
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeckEditor;
@@ -0,0 +1,127 @@
+import { Lock } from "lucide-react";
+import React, { useState } from "react";
+import { FamilyModeSettings, PIN_LENGTH, isValidPin } from "./familyMode";
+import { useTranslation } from "./i18n";
+import { getRandomPastelTheme } from "./theme";
+
+interface FamilyModeToggleProps {
+  value: FamilyModeSettings;
+  onChange: (value: FamilyModeSettings) => void;
+  theme: ReturnType<typeof getRandomPastelTheme>;
+  disabled: boolean;
+}
+
+const FamilyModeToggle: React.FC<FamilyModeToggleProps> = ({
+  value,
+  onChange,
+  theme,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  // "lock" sets a new PIN, "unlock" asks for it before turning family mode off
+  const [pinMode, setPinMode] = useState<"lock" | "unlock" | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const textColor = theme.primary.split(" ")[1];
+
+  const closePinEntry = () => {
+    setPinMode(null);
+    setPin("");
+    setError(null);
+  };
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled && value.pin) {
+      setPinMode("unlock");
+      return;
+    }
+    onChange({ ...value, enabled });
+  };
+
+  const handlePinSubmit = () => {
+    if (pinMode === "lock") {
+      onChange({ enabled: true, pin });
+      closePinEntry();
+    } else if (pin === value.pin) {
+      onChange({ enabled: false, pin: null });
+      closePinEntry();
+    } else {
+      setPin("");
+      setError(t("family.wrongPin"));
+    }
+  };
+
+  return (
+    <div className="block">
+      <label className="flex items-center space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          disabled={disabled || pinMode !== null}
+          className={`rounded-lg w-5 h-5 ${theme.checkbox} ${theme.focus} ${theme.border}`}
+        />
+        <span className={`text-xl font-medium ${textColor}`}>
+          {t("family.title")}
+        </span>
+        {value.pin && <Lock className={`w-5 h-5 ${textColor}`} />}
+      </label>
+      <p className={`mt-1 ml-8 ${textColor}`}>{t("family.help")}</p>
+
+      {pinMode ? (
+        <div className="mt-3 ml-8 space-y-2">
+          <div className="flex space-x-2">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              maxLength={PIN_LENGTH}
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value.replace(/\D/g, ""));
+                setError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && isValidPin(pin)) handlePinSubmit();
+              }}
+              placeholder={
+                pinMode === "lock"
+                  ? t("family.newPin", { length: PIN_LENGTH })
+                  : t("family.pin")
+              }
+              aria-label={t("family.pinLabel")}
+              className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+            />
+            <button
+              onClick={handlePinSubmit}
+              disabled={!isValidPin(pin)}
+              className={`py-2.5 px-4 rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50`}
+            >
+              {pinMode === "lock" ? t("family.lock") : t("family.unlock")}
+            </button>
+            <button
+              onClick={closePinEntry}
+              className={`py-2.5 px-4 rounded-xl ${theme.primary}`}
+            >
+              {t("common.cancel")}
+            </button>
+          </div>
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      ) : (
+        value.enabled &&
+        !value.pin && (
+          <button
+            onClick={() => setPinMode("lock")}
+            disabled={disabled}
+            className={`mt-2 ml-8 text-sm underline ${textColor} disabled:opacity-50`}
+          >
+            {t("family.lockWithPin")}
+          </button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default FamilyModeToggle;
@@ -0,0 +1,159 @@
+import { ArrowLeft, Trash2 } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import {
+  GameRecord,
+  clearHistory,
+  getCategoryStats,
+  getGames,
+  getMostSkippedPrompts,
+} from "./history";
+import { useTranslation } from "./i18n";
+import { getRandomPastelTheme } from "./theme";
+
+interface GameHistoryProps {
+  onBack: () => void;
+}
+
+const GameHistory: React.FC<GameHistoryProps> = ({ onBack }) => {
+  const { t, locale } = useTranslation();
+  const formatDuration = (minutes: number) =>
+    minutes < 1
+      ? t("setup.seconds", { count: minutes * 60 })
+      : t("setup.minutes", { count: minutes });
+  const [games, setGames] = useState<GameRecord[] | null>(null);
+  const theme = useState(() => getRandomPastelTheme())[0];
+
+  useEffect(() => {
+    getGames()
+      .then(setGames)
+      .catch((error) => {
+        console.error("Failed to load game history:", error);
+        setGames([]);
+      });
+  }, []);
+
+  const handleClear = async () => {
+    if (!window.confirm(t("history.confirmClear"))) return;
+    try {
+      await clearHistory();
+      setGames([]);
+    } catch (error) {
+      console.error("Failed to clear game history:", error);
+    }
+  };
+
+  const categoryStats = games ? getCategoryStats(games) : [];
+  const skippedPrompts = games ? getMostSkippedPrompts(games) : [];
+  const headingClass = `text-xl font-medium ${
+    theme.primary.split(" ")[1]
+  } mb-3 block`;
+
+  return (
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
+      <div className="w-full max-w-md mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className={`p-2 rounded-lg ${theme.primary}`}
+            aria-label={t("common.back")}
+          >
+            <ArrowLeft />
+          </button>
+          <h1 className="text-4xl font-bold text-center text-purple-800">
+            {t("history.title")}
+          </h1>
+          <button
+            onClick={handleClear}
+            disabled={!games || games.length === 0}
+            className={`p-2 rounded-lg ${theme.primary} disabled:opacity-50`}
+            aria-label={t("history.clear")}
+          >
+            <Trash2 />
+          </button>
+        </div>
+
+        {games === null ? (
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-800 mx-auto"></div>
+        ) : games.length === 0 ? (
+          <div className="text-xl text-center text-purple-700">
+            {t("history.empty")}
+          </div>
+        ) : (
+          <>
+            <div>
+              <span className={headingClass}>{t("history.averageScore")}</span>
+              <div
+                className={`space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+              >
+                {categoryStats.map((stat) => (
+                  <div
+                    key={stat.category ?? ""}
+                    className="flex justify-between p-3 rounded-lg bg-white"
+                  >
+                    <span>{stat.category ?? t("history.uncategorized")}</span>
+                    <span className="font-semibold">
+                      {stat.averageScore.toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {skippedPrompts.length > 0 && (
+              <div>
+                <span className={headingClass}>{t("history.mostSkipped")}</span>
+                <div
+                  className={`space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+                >
+                  {skippedPrompts.map((skipped) => (
+                    <div
+                      key={skipped.prompt}
+                      className="flex justify-between p-3 rounded-lg bg-white"
+                    >
+                      <span>{skipped.prompt}</span>
+                      <span className="font-semibold">×{skipped.skips}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <span className={headingClass}>{t("history.pastGames")}</span>
+              <div
+                className={`space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+              >
+                {games.map((game) => (
+                  <div key={game.id} className="p-3 rounded-lg bg-white">
+                    <div className="flex justify-between font-semibold">
+                      <span>
+                        {new Date(game.playedAt).toLocaleString(locale)}
+                      </span>
+                      <span>
+                        {game.results.filter((r) => r.correct).length} /{" "}
+                        {game.results.length}
+                      </span>
+                    </div>
+                    <div className="text-sm opacity-75">
+                      {formatDuration(game.config.duration)} ·{" "}
+                      {game.config.categories.map((c) => c.name).join(", ")}
+                    </div>
+                    {game.scores && (
+                      <div className="text-sm opacity-75">
+                        {game.config.teams
+                          .map((team, i) => `${team.name}: ${game.scores?.[i]}`)
+                          .join(" · ")}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameHistory;
@@ -0,0 +1,162 @@
+import { Plus, Trash2 } from "lucide-react";
+import React, { useState } from "react";
+import { useTranslation } from "./i18n";
+import {
+  CachedCategory,
+  PregenerateEntry,
+  addToPregenerateQueue,
+  getCachedCategories,
+  getPregenerateQueue,
+  processPregenerateQueue,
+  removeCachedCategory,
+  removeFromPregenerateQueue,
+} from "./promptCache";
+import { PromptProvider } from "./promptProviders";
+import { getRandomPastelTheme } from "./theme";
+
+interface OfflineCategoriesProps {
+  provider: PromptProvider;
+  theme: ReturnType<typeof getRandomPastelTheme>;
+}
+
+const OfflineCategories: React.FC<OfflineCategoriesProps> = ({
+  provider,
+  theme,
+}) => {
+  const { t, locale } = useTranslation();
+  const [cached, setCached] = useState<CachedCategory[]>(() =>
+    getCachedCategories()
+  );
+  const [queue, setQueue] = useState<PregenerateEntry[]>(() =>
+    getPregenerateQueue()
+  );
+  const [newCategory, setNewCategory] = useState("");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const textColor = theme.primary.split(" ")[1];
+
+  const refresh = () => {
+    setCached(getCachedCategories());
+    setQueue(getPregenerateQueue());
+  };
+
+  const pregenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await processPregenerateQueue(provider);
+    } catch (error) {
+      console.error("Failed to pre-generate prompts:", error);
+    } finally {
+      setIsGenerating(false);
+      refresh();
+    }
+  };
+
+  const handleAdd = () => {
+    const category = newCategory.trim();
+    if (!category) return;
+
+    addToPregenerateQueue(category, locale);
+    setNewCategory("");
+    refresh();
+    pregenerate();
+  };
+
+  const handleRemove = (entry: PregenerateEntry, isQueued: boolean) => {
+    if (isQueued) {
+      removeFromPregenerateQueue(entry.category, entry.locale);
+    } else {
+      removeCachedCategory(entry.category, entry.locale);
+    }
+    refresh();
+  };
+
+  // Other languages' categories are listed too, so they can be cleaned up
+  const localeTag = (entry: PregenerateEntry) =>
+    entry.locale === locale ? "" : ` (${entry.locale})`;
+
+  return (
+    <div className="block">
+      <span className={`text-xl font-medium ${textColor} mb-3 block`}>
+        {t("offline.title")}
+      </span>
+      <p className={`mb-3 ${textColor}`}>{t("offline.help")}</p>
+
+      <form
+        className="flex space-x-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAdd();
+        }}
+      >
+        <input
+          type="text"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          placeholder={t("setup.customPlaceholder")}
+          className={`block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`}
+        />
+        <button
+          type="submit"
+          disabled={!newCategory.trim()}
+          className={`p-2.5 rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50`}
+          aria-label={t("offline.add")}
+        >
+          <Plus />
+        </button>
+      </form>
+
+      {(queue.length > 0 || cached.length > 0) && (
+        <div
+          className={`mt-3 space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+        >
+          {queue.map((entry) => (
+            <div
+              key={`queued-${entry.locale}-${entry.category}`}
+              className="flex items-center space-x-2 p-3 rounded-lg bg-white"
+            >
+              <span className="flex-grow">
+                {entry.category}
+                {localeTag(entry)}
+                <span className="ml-2 text-sm opacity-75">
+                  {isGenerating
+                    ? t("offline.generating")
+                    : t("offline.waiting")}
+                </span>
+              </span>
+              <button
+                onClick={() => handleRemove(entry, true)}
+                className="p-1 rounded-lg hover:bg-gray-100"
+                aria-label={t("decks.remove", { text: entry.category })}
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            </div>
+          ))}
+          {cached.map((entry) => (
+            <div
+              key={`cached-${entry.locale}-${entry.category}`}
+              className="flex items-center space-x-2 p-3 rounded-lg bg-white"
+            >
+              <span className="flex-grow">
+                {entry.category}
+                {localeTag(entry)}
+                <span className="ml-2 text-sm opacity-75">
+                  {t("common.prompts", { count: entry.prompts.length })}
+                </span>
+              </span>
+              <button
+                onClick={() => handleRemove(entry, false)}
+                className="p-1 rounded-lg hover:bg-gray-100"
+                aria-label={t("decks.remove", { text: entry.category })}
+              >
+                <Trash2 className="h-5 w-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineCategories;
@@ -0,0 +1,128 @@
+import { ExternalLink, RefreshCw } from "lucide-react";
+import React, { useState } from "react";
+import { useTranslation } from "./i18n";
+import { createRoomCode, getPresenterUrl, isValidRelayUrl } from "./presenter";
+import { Settings } from "./settings";
+import { getRandomPastelTheme } from "./theme";
+
+interface PresenterSetupProps {
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+  theme: ReturnType<typeof getRandomPastelTheme>;
+}
+
+const PresenterSetup: React.FC<PresenterSetupProps> = ({
+  settings,
+  onChange,
+  theme,
+}) => {
+  const { t } = useTranslation();
+  const textColor = theme.primary.split(" ")[1];
+  const inputClass = `block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`;
+  const room = settings.presenterRoom;
+  // Only saved once it's usable, so a half-typed URL never reaches the link
+  const [relayDraft, setRelayDraft] = useState(settings.presenterRelayUrl);
+  const relayIsValid = isValidRelayUrl(relayDraft.trim());
+  const presenterUrl = room
+    ? getPresenterUrl({ room, relayUrl: settings.presenterRelayUrl })
+    : "";
+
+  const openPresenter = () => {
+    // The room is only created once someone actually wants a presenter
+    const code = room || createRoomCode();
+    if (!room) onChange({ presenterRoom: code });
+    window.open(
+      getPresenterUrl({ room: code, relayUrl: settings.presenterRelayUrl }),
+      "charader-presenter"
+    );
+  };
+
+  return (
+    <div className="block">
+      <span className={`text-xl font-medium ${textColor} mb-3 block`}>
+        {t("presenter.title")}
+      </span>
+      <p className={`mb-3 ${textColor}`}>{t("presenter.help")}</p>
+
+      <div
+        className={`space-y-3 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+      >
+        <label className="block">
+          <span className="font-medium mb-1 block">{t("presenter.room")}</span>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={room}
+              onChange={(e) =>
+                onChange({
+                  presenterRoom: e.target.value
+                    .toUpperCase()
+                    .replace(/[^A-Z0-9]/g, "")
+                    .slice(0, 8),
+                })
+              }
+              className={`${inputClass} font-mono tracking-widest`}
+            />
+            <button
+              onClick={() => onChange({ presenterRoom: createRoomCode() })}
+              className="p-2.5 rounded-xl bg-white"
+              aria-label={t("presenter.newRoom")}
+            >
+              <RefreshCw />
+            </button>
+          </div>
+        </label>
+
+        <label className="block">
+          <span className="font-medium mb-1 block">
+            {t("presenter.relayUrl")}
+          </span>
+          <input
+            type="url"
+            value={relayDraft}
+            onChange={(e) => {
+              const relayUrl = e.target.value.trim();
+              setRelayDraft(e.target.value);
+              if (isValidRelayUrl(relayUrl)) {
+                onChange({ presenterRelayUrl: relayUrl });
+              }
+            }}
+            placeholder="ws://192.168.1.10:8788/presenter"
+            className={inputClass}
+            aria-invalid={!relayIsValid}
+          />
+          <p className="mt-1 text-sm opacity-75">
+            {relayIsValid
+              ? t("presenter.relayHelp")
+              : t("presenter.invalidRelayUrl")}
+          </p>
+        </label>
+
+        {presenterUrl && (
+          <label className="block">
+            <span className="font-medium mb-1 block">
+              {t("presenter.link")}
+            </span>
+            <input
+              type="text"
+              readOnly
+              value={presenterUrl}
+              onFocus={(e) => e.target.select()}
+              className={`${inputClass} text-sm`}
+            />
+          </label>
+        )}
+
+        <button
+          onClick={openPresenter}
+          className="w-full flex items-center justify-center py-2 px-4 font-semibold rounded-xl bg-white"
+        >
+          <ExternalLink className="mr-2 h-5 w-5" />
+          {t("presenter.open")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PresenterSetup;
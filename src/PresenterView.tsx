@@ -0,0 +1,124 @@
+import { Check, Pause, Timer, X } from "lucide-react";
+import React, { useState } from "react";
+import { LocaleContext, detectLocale, useTranslation } from "./i18n";
+import { PresenterParams, PresenterState, usePresenterLink } from "./presenter";
+import { loadSettings } from "./settings";
+
+interface PresenterViewProps {
+  params: PresenterParams;
+}
+
+// Opened from a ?presenter= link on a TV or laptop; only ever follows the
+// game, so it has no controls of its own
+const PresenterScreen: React.FC<PresenterViewProps> = ({ params }) => {
+  const { t } = useTranslation();
+  const [state, setState] = useState<PresenterState | null>(null);
+
+  const { status } = usePresenterLink(params, setState);
+
+  if (!state) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-purple-50 text-purple-800 p-8 text-center">
+        <h1 className="text-6xl font-bold mb-8">Charader</h1>
+        <p className="text-3xl mb-4">
+          {status === "error"
+            ? t("presenter.relayError")
+            : t("presenter.waiting")}
+        </p>
+        <p className="text-2xl">
+          {t("presenter.room")}:{" "}
+          <span className="font-mono font-bold tracking-widest">
+            {params.room}
+          </span>
+        </p>
+      </div>
+    );
+  }
+
+  const minutes = Math.floor(state.timeLeft / 60);
+  const seconds = state.timeLeft % 60;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-purple-50 text-purple-800 p-8">
+      {state.team && <h2 className="text-4xl font-bold mb-4">{state.team}</h2>}
+      {state.category && state.phase !== "ended" && (
+        <p className="text-3xl mb-8">{state.category}</p>
+      )}
+
+      {state.phase === "ended" ? (
+        <div className="w-full max-w-3xl">
+          <h1 className="text-6xl font-bold text-center mb-8">
+            {t("end.timesUp")}
+          </h1>
+          <p className="text-4xl text-center mb-8">
+            {t("end.score", {
+              correct: state.correct,
+              total: state.correct + state.skipped,
+            })}
+          </p>
+          <ul className="grid grid-cols-2 gap-3 text-2xl">
+            {state.results?.map((result, index) => (
+              <li
+                key={index}
+                className={`flex items-center p-3 rounded-xl ${
+                  result.correct ? "bg-green-100" : "bg-red-100"
+                }`}
+              >
+                {result.correct ? (
+                  <Check className="mr-2 flex-shrink-0 text-green-600" />
+                ) : (
+                  <X className="mr-2 flex-shrink-0 text-red-600" />
+                )}
+                {result.prompt}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="flex-grow flex flex-col items-center justify-center">
+          {state.phase === "handoff" || state.phase === "countdown" ? (
+            <p className="text-7xl font-bold">{t("presenter.getReady")}</p>
+          ) : (
+            <>
+              <div className="flex items-center text-[10rem] leading-none font-bold tabular-nums">
+                {state.phase === "paused" ? (
+                  <Pause className="mr-6 h-24 w-24" />
+                ) : (
+                  <Timer className="mr-6 h-24 w-24" />
+                )}
+                {minutes}:{seconds.toString().padStart(2, "0")}
+              </div>
+              {state.phase === "paused" && (
+                <p className="text-4xl mt-4">{t("game.paused")}</p>
+              )}
+              <p className="text-5xl mt-8">
+                {t("presenter.correct", { count: state.correct })}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {state.scoreboard && (
+        <div className="mt-8 flex flex-wrap justify-center gap-4">
+          {state.scoreboard.map(({ team, score }) => (
+            <div
+              key={team}
+              className="py-3 px-6 rounded-xl bg-white text-3xl shadow"
+            >
+              {team}: <span className="font-bold">{score}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PresenterView: React.FC<PresenterViewProps> = ({ params }) => (
+  <LocaleContext.Provider value={loadSettings().locale ?? detectLocale()}>
+    <PresenterScreen params={params} />
+  </LocaleContext.Provider>
+);
+
+export default PresenterView;
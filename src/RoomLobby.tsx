@@ -0,0 +1,178 @@
+import { ArrowLeft, LogIn, Users } from "lucide-react";
+import React, { useState } from "react";
+import { useTranslation } from "./i18n";
+import { normalizeRoomCode } from "./roomProtocol";
+import { HostedRoom, getJoinUrl } from "./rooms";
+import { getRandomPastelTheme } from "./theme";
+
+interface RoomLobbyProps {
+  hostedRoom: HostedRoom;
+  serverUrl: string;
+  onServerUrlChange: (serverUrl: string) => void;
+  onBack: () => void;
+}
+
+const RoomLobby: React.FC<RoomLobbyProps> = ({
+  hostedRoom,
+  serverUrl,
+  onServerUrlChange,
+  onBack,
+}) => {
+  const { t } = useTranslation();
+  const theme = useState(() => getRandomPastelTheme())[0];
+  const [joinCode, setJoinCode] = useState("");
+  const textColor = theme.primary.split(" ")[1];
+  const labelClass = `text-xl font-medium ${textColor} mb-3 block`;
+  const inputClass = `block w-full rounded-xl py-2.5 px-3 shadow-sm ${theme.border} ${theme.focus}`;
+  const buttonClass = `w-full flex items-center justify-center py-3 px-4 text-lg font-semibold rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50`;
+  const { room, status, isOpen } = hostedRoom;
+
+  return (
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
+      <div className="w-full max-w-md mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className={`p-2 rounded-lg ${theme.primary}`}
+            aria-label={t("common.back")}
+          >
+            <ArrowLeft />
+          </button>
+          <h1 className="text-4xl font-bold text-center text-purple-800">
+            {t("room.title")}
+          </h1>
+          <div className="w-10" />
+        </div>
+
+        <p className={textColor}>{t("room.help")}</p>
+
+        <label className="block">
+          <span className={labelClass}>{t("room.serverUrl")}</span>
+          <input
+            type="text"
+            value={serverUrl}
+            onChange={(e) => onServerUrlChange(e.target.value)}
+            disabled={isOpen}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+          <p className={`mt-1 text-sm ${textColor} opacity-75`}>
+            {t("room.serverHelp")}
+          </p>
+        </label>
+
+        <div className="block">
+          <span className={labelClass}>{t("room.host")}</span>
+          {!isOpen ? (
+            <button
+              onClick={hostedRoom.open}
+              disabled={!serverUrl.trim()}
+              className={buttonClass}
+            >
+              <Users className="mr-2" />
+              {t("room.create")}
+            </button>
+          ) : (
+            <div
+              className={`space-y-3 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+            >
+              {room ? (
+                <>
+                  <div className="text-center">
+                    <div className="text-sm opacity-75">{t("room.code")}</div>
+                    <div className="text-5xl font-bold font-mono tracking-widest">
+                      {room.code}
+                    </div>
+                  </div>
+                  <input
+                    type="text"
+                    readOnly
+                    value={getJoinUrl({ room: room.code, serverUrl })}
+                    onFocus={(e) => e.target.select()}
+                    aria-label={t("room.joinLink")}
+                    className={`${inputClass} text-sm`}
+                  />
+                </>
+              ) : (
+                <p className="text-center">
+                  {status === "error"
+                    ? t("room.connectionError")
+                    : t("room.connecting")}
+                </p>
+              )}
+              {status === "reconnecting" && (
+                <p className="text-center font-medium">
+                  {t("room.reconnecting")}
+                </p>
+              )}
+
+              <div>
+                <div className="font-medium mb-1">{t("room.players")}</div>
+                {room && room.players.length > 0 ? (
+                  <ul className="space-y-1">
+                    {room.players.map((player) => (
+                      <li
+                        key={player.id}
+                        className="flex items-center p-2 rounded-lg bg-white"
+                      >
+                        <span
+                          className={`mr-2 h-2.5 w-2.5 rounded-full ${
+                            player.connected ? "bg-green-500" : "bg-gray-300"
+                          }`}
+                          aria-hidden="true"
+                        />
+                        {player.name}
+                        {!player.connected && (
+                          <span className="ml-2 text-sm opacity-75">
+                            {t("room.away")}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="opacity-75">{t("room.noPlayers")}</p>
+                )}
+              </div>
+
+              <button
+                onClick={hostedRoom.close}
+                className="w-full py-2 px-4 font-semibold rounded-xl bg-white"
+              >
+                {t("room.close")}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <form
+          className="block"
+          onSubmit={(e) => {
+            e.preventDefault();
+            window.location.assign(getJoinUrl({ room: joinCode, serverUrl }));
+          }}
+        >
+          <span className={labelClass}>{t("room.join")}</span>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={joinCode}
+              onChange={(e) => setJoinCode(normalizeRoomCode(e.target.value))}
+              placeholder={t("room.code")}
+              className={`${inputClass} font-mono tracking-widest`}
+            />
+            <button
+              type="submit"
+              disabled={joinCode.length === 0}
+              className={`p-2.5 rounded-xl ${theme.secondary} ${theme.hover} disabled:opacity-50`}
+              aria-label={t("room.join")}
+            >
+              <LogIn />
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RoomLobby;
@@ -0,0 +1,189 @@
+import { Check, SkipForward } from "lucide-react";
+import React, { useState } from "react";
+import { LocaleContext, detectLocale, useTranslation } from "./i18n";
+import { MAX_PLAYER_NAME_LENGTH } from "./roomProtocol";
+import {
+  JoinParams,
+  loadPlayerName,
+  savePlayerName,
+  useJoinedRoom,
+} from "./rooms";
+import { loadSettings } from "./settings";
+
+interface RoomPlayerViewProps {
+  params: JoinParams;
+}
+
+const RoomPlayer: React.FC<RoomPlayerViewProps & { name: string }> = ({
+  params,
+  name,
+}) => {
+  const { t } = useTranslation();
+  const { room, playerId, prompt, score, status, error, sendAction } =
+    useJoinedRoom(params, name);
+
+  if (error === "roomNotFound" || status === "error") {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-purple-50 p-6 text-center">
+        <h1 className="text-3xl font-bold text-purple-800 mb-4">
+          {status === "error"
+            ? t("room.connectionError")
+            : t("room.notFound", { code: params.room })}
+        </h1>
+        <a href="/" className="text-purple-600 underline">
+          {t("common.back")}
+        </a>
+      </div>
+    );
+  }
+
+  const isActing = !!playerId && room?.actorId === playerId;
+  const actor = room?.players.find((player) => player.id === room.actorId);
+
+  return (
+    <div className="flex flex-col min-h-screen bg-purple-50 text-purple-800">
+      <div className="w-full p-4 bg-purple-600 text-white text-center">
+        <div className="text-lg font-medium">
+          {t("room.codeLabel", { code: params.room })} · {name}
+        </div>
+        {score && (
+          <div className="opacity-90">
+            {t("presenter.correct", { count: score.correctCount })}
+          </div>
+        )}
+      </div>
+      {status !== "connected" && (
+        <div className="p-2 bg-yellow-100 text-center">
+          {status === "reconnecting"
+            ? t("room.reconnecting")
+            : t("room.connecting")}
+        </div>
+      )}
+
+      {isActing ? (
+        <>
+          <div className="flex-grow flex flex-col items-center justify-center p-4 text-center">
+            <div className="text-xl mb-4">{t("room.youreActing")}</div>
+            <h1 className="text-5xl font-bold">
+              {prompt ?? t("presenter.getReady")}
+            </h1>
+          </div>
+          <div className="grid grid-cols-2 gap-4 p-4">
+            <button
+              onClick={() => sendAction("correct")}
+              disabled={prompt === null}
+              className="flex items-center justify-center py-8 text-2xl font-semibold rounded-xl bg-green-500 text-white disabled:opacity-50"
+            >
+              <Check className="mr-2" />
+              {t("controls.correct")}
+            </button>
+            <button
+              onClick={() => sendAction("skip")}
+              disabled={prompt === null}
+              className="flex items-center justify-center py-8 text-2xl font-semibold rounded-xl bg-orange-500 text-white disabled:opacity-50"
+            >
+              <SkipForward className="mr-2" />
+              {t("controls.skip")}
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="flex-grow flex flex-col items-center justify-center p-4 text-center">
+          <h1 className="text-3xl font-bold mb-6">
+            {actor
+              ? t("room.isActing", { name: actor.name })
+              : t("room.waitingForHost")}
+          </h1>
+          {room && (
+            <ul className="space-y-1">
+              {room.players.map((player) => (
+                <li
+                  key={player.id}
+                  className={player.connected ? "" : "opacity-50"}
+                >
+                  {player.name}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface NameFormProps {
+  room: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}
+
+const NameForm: React.FC<NameFormProps> = ({
+  room,
+  value,
+  onChange,
+  onSubmit,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <form
+      className="flex flex-col items-center justify-center min-h-screen bg-purple-50 p-6"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit();
+      }}
+    >
+      <div className="w-full max-w-md space-y-4">
+        <h1 className="text-4xl font-bold text-center text-purple-800">
+          {t("room.codeLabel", { code: room })}
+        </h1>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={MAX_PLAYER_NAME_LENGTH}
+          placeholder={t("room.yourName")}
+          className="block w-full rounded-xl py-3.5 px-4 shadow-sm text-lg"
+          autoFocus
+        />
+        <button
+          type="submit"
+          disabled={!value.trim()}
+          className="w-full py-4 px-6 text-xl font-semibold rounded-xl bg-purple-600 text-white disabled:opacity-50"
+        >
+          {t("room.join")}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Opened from a ?join= link on each player's phone
+const RoomPlayerView: React.FC<RoomPlayerViewProps> = ({ params }) => {
+  const [name, setName] = useState(() => loadPlayerName());
+  const [draft, setDraft] = useState("");
+  const locale = loadSettings().locale ?? detectLocale();
+
+  return (
+    <LocaleContext.Provider value={locale}>
+      {!name ? (
+        <NameForm
+          room={params.room}
+          value={draft}
+          onChange={setDraft}
+          onSubmit={() => {
+            const trimmed = draft.trim();
+            savePlayerName(trimmed);
+            setName(trimmed);
+          }}
+        />
+      ) : (
+        <RoomPlayer params={params} name={name} />
+      )}
+    </LocaleContext.Provider>
+  );
+};
+
+export default RoomPlayerView;
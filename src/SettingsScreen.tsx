@@ -0,0 +1,155 @@
+import { ArrowLeft } from "lucide-react";
+import React, { useState } from "react";
+import ControlsEditor from "./ControlsEditor";
+import { LOCALES, Locale, detectLocale, useTranslation } from "./i18n";
+import OfflineCategories from "./OfflineCategories";
+import PresenterSetup from "./PresenterSetup";
+import { PromptProvider } from "./promptProviders";
+import { ProviderId, Settings } from "./settings";
+import { getRandomPastelTheme } from "./theme";
+
+interface SettingsScreenProps {
+  settings: Settings;
+  provider: PromptProvider;
+  onChange: (settings: Settings) => void;
+  onBack: () => void;
+}
+
+const PROVIDER_OPTIONS: ProviderId[] = [
+  "openai",
+  "compatible",
+  "static",
+  ...(import.meta.env.DEV ? ["mock" as const] : []),
+];
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  settings,
+  provider,
+  onChange,
+  onBack,
+}) => {
+  const { t } = useTranslation();
+  const deviceLocale = LOCALES.find(({ id }) => id === detectLocale());
+  const theme = useState(() => getRandomPastelTheme())[0];
+  const labelClass = `text-xl font-medium ${
+    theme.primary.split(" ")[1]
+  } mb-3 block`;
+  const inputClass = `mt-2 block w-full rounded-xl py-3.5 px-4 shadow-sm ${theme.border} ${theme.focus} text-lg`;
+
+  const update = (changes: Partial<Settings>) =>
+    onChange({ ...settings, ...changes });
+
+  return (
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
+      <div className="w-full max-w-md mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className={`p-2 rounded-lg ${theme.primary}`}
+            aria-label={t("common.back")}
+          >
+            <ArrowLeft />
+          </button>
+          <h1 className="text-4xl font-bold text-center text-purple-800">
+            {t("common.settings")}
+          </h1>
+          <div className="w-10" />
+        </div>
+
+        <label className="block">
+          <span className={labelClass}>{t("settings.language")}</span>
+          <select
+            value={settings.locale ?? ""}
+            onChange={(e) =>
+              update({ locale: (e.target.value as Locale) || null })
+            }
+            className={inputClass}
+          >
+            <option value="">
+              {t("settings.deviceLanguage", {
+                language: deviceLocale?.label ?? "",
+              })}
+            </option>
+            {LOCALES.map((locale) => (
+              <option key={locale.id} value={locale.id}>
+                {locale.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className={labelClass}>{t("settings.promptSource")}</span>
+          <select
+            value={settings.provider}
+            onChange={(e) => update({ provider: e.target.value as ProviderId })}
+            className={inputClass}
+          >
+            {PROVIDER_OPTIONS.map((id) => (
+              <option key={id} value={id}>
+                {t(`settings.provider.${id}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {settings.provider === "compatible" && (
+          <>
+            <label className="block">
+              <span className={labelClass}>{t("settings.serverUrl")}</span>
+              <input
+                type="url"
+                value={settings.compatibleBaseUrl}
+                onChange={(e) => update({ compatibleBaseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t("settings.model")}</span>
+              <input
+                type="text"
+                value={settings.compatibleModel}
+                onChange={(e) => update({ compatibleModel: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t("settings.apiKey")}</span>
+              <input
+                type="password"
+                value={settings.compatibleApiKey}
+                onChange={(e) => update({ compatibleApiKey: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+
+        {settings.provider === "static" && (
+          <p className={theme.primary.split(" ")[1]}>
+            {t("settings.staticNote")}
+          </p>
+        )}
+
+        <ControlsEditor
+          value={settings.controls}
+          onChange={(controls) => update({ controls })}
+          theme={theme}
+        />
+
+        <PresenterSetup settings={settings} onChange={update} theme={theme} />
+
+        {provider.supportsCustomCategories && (
+          <OfflineCategories
+            key={provider.id}
+            provider={provider}
+            theme={theme}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsScreen;
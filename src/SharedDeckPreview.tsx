@@ -0,0 +1,64 @@
+import { Plus } from "lucide-react";
+import React, { useState } from "react";
+import { CustomDeck } from "./customDecks";
+import { useTranslation } from "./i18n";
+import { getRandomPastelTheme } from "./theme";
+
+interface SharedDeckPreviewProps {
+  deck: CustomDeck;
+  onAdd: () => void;
+  onDismiss: () => void;
+}
+
+const SharedDeckPreview: React.FC<SharedDeckPreviewProps> = ({
+  deck,
+  onAdd,
+  onDismiss,
+}) => {
+  const { t } = useTranslation();
+  const theme = useState(() => getRandomPastelTheme())[0];
+
+  return (
+    <div className={`h-screen overflow-y-auto ${theme.accent} p-6`}>
+      <div className="w-full max-w-md mx-auto space-y-6">
+        <div className="text-lg text-center text-purple-600">
+          {t("decks.sharedWithYou")}
+        </div>
+        <h1 className="text-4xl font-bold text-center text-purple-800">
+          {deck.emoji} {deck.name}
+        </h1>
+        <div className="text-xl text-center text-purple-700">
+          {t("common.prompts", { count: deck.options.length })}
+        </div>
+
+        <div
+          className={`max-h-72 overflow-y-auto space-y-2 ${theme.primary} rounded-xl border ${theme.border} p-4`}
+        >
+          {deck.options.map((option) => (
+            <div key={option.text} className="p-3 rounded-lg bg-white">
+              {option.text}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onAdd}
+          className={`w-full py-4 px-6 text-xl font-semibold rounded-xl ${theme.secondary} ${theme.hover} focus:outline-none focus:ring-2 ${theme.focus} focus:ring-offset-2 shadow-lg transform transition-transform active:scale-[0.98]`}
+        >
+          <div className="flex items-center justify-center">
+            <Plus className="mr-2" />
+            {t("decks.addShared")}
+          </div>
+        </button>
+        <button
+          onClick={onDismiss}
+          className={`w-full py-3 px-6 text-lg font-semibold rounded-xl ${theme.primary}`}
+        >
+          {t("decks.noThanks")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SharedDeckPreview;
@@ -0,0 +1,41 @@
+import { RefreshCw } from "lucide-react";
+import React, { useState } from "react";
+import { useTranslation } from "./i18n";
+
+interface UpdatePromptProps {
+  onUpdate: () => Promise<void>;
+}
+
+const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onUpdate }) => {
+  const { t } = useTranslation();
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed) return null;
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-30 p-4">
+      <div className="w-full max-w-md mx-auto flex items-center space-x-3 rounded-xl bg-purple-800 p-4 text-white shadow-lg">
+        <span className="flex-grow">{t("update.available")}</span>
+        <button
+          onClick={() => setDismissed(true)}
+          className="py-2 px-3 rounded-lg hover:bg-white/10"
+        >
+          {t("update.later")}
+        </button>
+        <button
+          onClick={() =>
+            onUpdate().catch((error) =>
+              console.error("Failed to apply update:", error)
+            )
+          }
+          className="flex items-center py-2 px-3 rounded-lg bg-white text-purple-800 font-semibold"
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          {t("update.reload")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { containsBlockedTerm } from "./blocklist";
+
+describe("containsBlockedTerm", () => {
+  it("matches whole words and their plurals", () => {
+    expect(containsBlockedTerm("Beer")).toBe(true);
+    expect(containsBlockedTerm("Root beers")).toBe(true);
+    expect(containsBlockedTerm("Glass")).toBe(false);
+  });
+
+  it("uses the locale's list as well as the English one", () => {
+    expect(containsBlockedTerm("Cerveza")).toBe(false);
+    expect(containsBlockedTerm("Cerveza", "es")).toBe(true);
+    expect(containsBlockedTerm("Copa de vino", "es")).toBe(true);
+    expect(containsBlockedTerm("Cadáveres", "es")).toBe(true);
+    expect(containsBlockedTerm("Vodka", "es")).toBe(true);
+  });
+
+  it("doesn't match inside words with accented letters", () => {
+    expect(containsBlockedTerm("Sexólogo", "es")).toBe(false);
+    expect(containsBlockedTerm("Ronda", "es")).toBe(false);
+  });
+});
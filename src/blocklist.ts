@@ -0,0 +1,114 @@
+// Shared by the browser providers and the prompt server, so keep this free of
+// browser- and Vite-specific code
+
+// Keyed by locale. Spelled out here instead of using Locale from i18n.ts,
+// which needs the browser; passing a Locale still fails to type-check if a
+// language is added without a list.
+export type BlocklistLocale = "en" | "es";
+
+// Matched as whole words, so "ass" doesn't block "glass" or "Bass"
+const BLOCKED_TERMS: Record<BlocklistLocale, string[]> = {
+  en: [
+    "alcohol",
+    "ass",
+    "beer",
+    "bitch",
+    "blood",
+    "bloody",
+    "bomb",
+    "booze",
+    "cocaine",
+    "corpse",
+    "crap",
+    "damn",
+    "dead body",
+    "drunk",
+    "fuck",
+    "gun",
+    "hangover",
+    "heroin",
+    "hooker",
+    "kill",
+    "killer",
+    "marijuana",
+    "meth",
+    "murder",
+    "naked",
+    "nude",
+    "porn",
+    "prostitute",
+    "sex",
+    "sexy",
+    "shit",
+    "stripper",
+    "suicide",
+    "terrorist",
+    "tequila",
+    "vodka",
+    "weed",
+    "whiskey",
+    "wine",
+  ],
+  es: [
+    "asesina",
+    "asesinar",
+    "asesinato",
+    "asesino",
+    "bomba",
+    "borracha",
+    "borracho",
+    "cabrón",
+    "cadáver",
+    "cerveza",
+    "cocaína",
+    "coño",
+    "culo",
+    "desnuda",
+    "desnudo",
+    "droga",
+    "gilipollas",
+    "heroína",
+    "joder",
+    "marihuana",
+    "matar",
+    "mierda",
+    "pistola",
+    "porno",
+    "porro",
+    "prostituta",
+    "puta",
+    "resaca",
+    "ron",
+    "sangre",
+    "sangriento",
+    "sexo",
+    "suicidio",
+    "terrorista",
+    "vino",
+    "whisky",
+  ],
+};
+
+// \b only knows ASCII letters, so it would find "sex" in "sexólogo"
+const toPattern = (terms: string[]) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])(${terms.join("|")})(e?s)?(?![\\p{L}\\p{N}])`,
+    "iu"
+  );
+
+// English terms are checked in every language, since drinks and slang like
+// "vodka" or "sexy" often come back untranslated
+const BLOCKED_PATTERNS = Object.fromEntries(
+  Object.entries(BLOCKED_TERMS).map(([locale, terms]) => [
+    locale,
+    toPattern(locale === "en" ? terms : [...BLOCKED_TERMS.en, ...terms]),
+  ])
+) as Record<BlocklistLocale, RegExp>;
+
+export const isBlocklistLocale = (value: unknown): value is BlocklistLocale =>
+  typeof value === "string" && Object.keys(BLOCKED_TERMS).includes(value);
+
+export const containsBlockedTerm = (
+  text: string,
+  locale: BlocklistLocale = "en"
+): boolean => BLOCKED_PATTERNS[locale].test(text);
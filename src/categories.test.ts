@@ -0,0 +1,204 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  ALL_CATEGORIES,
+  getAllCategories,
+  getBuiltInCategories,
+  getOptionDifficulty,
+  getRandomOptionsForCategory,
+  getSelectedCategories,
+  loadCategoryOptions,
+} from "./categories";
+import { DeckPack, getPackInfo } from "./deckPacks";
+import DECK_INDEX from "./decks/index.json";
+import { getSeenPrompts, markPromptsSeen } from "./seenPrompts";
+
+// Every category that "All Categories" draws from
+const deckCategories = getAllCategories().filter(
+  (cat) => cat.id !== "misc" && cat.id !== "custom"
+);
+
+const deckOf = async (id: string) =>
+  (await loadCategoryOptions(id)).map((option) => option.text);
+
+describe("deck packs", () => {
+  const packs = import.meta.glob<DeckPack>("./decks/*/*.json", {
+    import: "default",
+    eager: true,
+  });
+
+  it("are all listed in the index as they are", async () => {
+    expect(DECK_INDEX).toHaveLength(Object.keys(packs).length);
+    for (const [path, pack] of Object.entries(packs)) {
+      expect(path).toBe(`./decks/${pack.locale}/${pack.id}.json`);
+      expect(pack.count, path).toBe(pack.options?.length ?? 0);
+      expect(DECK_INDEX, path).toContainEqual(getPackInfo(pack));
+    }
+  });
+
+  it("list their categories without loading any options", async () => {
+    expect(ALL_CATEGORIES[0].id).toBe("misc");
+    expect(ALL_CATEGORIES.at(-1)?.id).toBe("custom");
+    for (const category of ALL_CATEGORIES.slice(1, -1)) {
+      expect(category.options).toBeUndefined();
+      expect(category.count).toBeGreaterThan(0);
+    }
+  });
+
+  it("load the locale's options, or the English ones without a translation", async () => {
+    const es = getBuiltInCategories("es");
+    const movies = es.find((cat) => cat.id === "movies");
+    const animals = es.find((cat) => cat.id === "animals");
+
+    expect(movies?.name).toBe("🎬 Series y películas");
+    expect(movies?.count).toBe(
+      ALL_CATEGORIES.find((cat) => cat.id === "movies")?.count
+    );
+    expect(await loadCategoryOptions("movies", "es")).toEqual(
+      await loadCategoryOptions("movies")
+    );
+
+    const spanishAnimals = await loadCategoryOptions("animals", "es");
+    expect(spanishAnimals).toHaveLength(animals?.count ?? -1);
+    expect(spanishAnimals).not.toEqual(await loadCategoryOptions("animals"));
+  });
+
+  it("load the player's own decks from storage", async () => {
+    localStorage.setItem(
+      "charader:customDecks",
+      JSON.stringify([
+        { id: "mine", name: "Mine", emoji: "🃏", options: [{ text: "Jaws" }] },
+      ])
+    );
+
+    expect(await loadCategoryOptions("mine")).toEqual([{ text: "Jaws" }]);
+    expect(await loadCategoryOptions("nope")).toEqual([]);
+    localStorage.clear();
+  });
+});
+
+describe("getSelectedCategories", () => {
+  it("keeps the selected categories in order", () => {
+    expect(
+      getSelectedCategories(ALL_CATEGORIES, new Set(["animals", "movies"]), "")
+    ).toEqual(
+      ALL_CATEGORIES.filter((cat) => ["animals", "movies"].includes(cat.id))
+    );
+  });
+
+  it("swaps the Custom entry for the typed category", () => {
+    expect(
+      getSelectedCategories(ALL_CATEGORIES, new Set(["custom"]), " Bands ")
+    ).toEqual([{ id: "custom", name: "Bands", prompt: "Bands" }]);
+    expect(
+      getSelectedCategories(ALL_CATEGORIES, new Set(["custom"]), " ")
+    ).toEqual([]);
+  });
+});
+
+describe("getRandomOptionsForCategory", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("returns nothing for custom categories, which need a provider", async () => {
+    expect(await getRandomOptionsForCategory("custom", 10)).toEqual([]);
+  });
+
+  it("returns nothing for unknown categories", async () => {
+    expect(await getRandomOptionsForCategory("nope", 10)).toEqual([]);
+  });
+
+  it("returns the requested number of distinct options from the deck", async () => {
+    const deck = await deckOf("animals");
+    const options = await getRandomOptionsForCategory("animals", 12);
+
+    expect(options).toHaveLength(12);
+    expect(new Set(options.map((option) => option.text)).size).toBe(12);
+    for (const option of options) {
+      expect(deck).toContain(option.text);
+    }
+  });
+
+  it("returns the whole deck when asked for more than it has", async () => {
+    const deck = await deckOf("instruments");
+    const options = await getRandomOptionsForCategory("instruments", 1000);
+
+    expect(options.map((option) => option.text).sort()).toEqual(
+      [...deck].sort()
+    );
+  });
+
+  it("spreads All Categories evenly over every deck", async () => {
+    const options = await getRandomOptionsForCategory(
+      "misc",
+      deckCategories.length * 2
+    );
+    const texts = options.map((option) => option.text);
+
+    expect(options).toHaveLength(deckCategories.length * 2);
+    for (const category of deckCategories) {
+      const deck = new Set(await deckOf(category.id));
+      expect(
+        texts.filter((text) => deck.has(text)).length,
+        category.name
+      ).toBeGreaterThanOrEqual(2);
+    }
+  });
+
+  it("trims All Categories to the requested count", async () => {
+    expect(await getRandomOptionsForCategory("misc", 1)).toHaveLength(1);
+    expect(await getRandomOptionsForCategory("misc", 50)).toHaveLength(50);
+  });
+
+  it("keeps to the difficulty and leaves out mature options", async () => {
+    const options = await getRandomOptionsForCategory("misc", 200, {
+      difficulty: "hard",
+      familyMode: true,
+    });
+
+    expect(options.length).toBeGreaterThan(0);
+    for (const option of options) {
+      expect(getOptionDifficulty(option)).toBe("hard");
+      expect(option.mature).toBeFalsy();
+    }
+  });
+
+  it("picks from what's left after the exclusions", async () => {
+    const deck = await deckOf("instruments");
+    const exclusions = deck.slice(2);
+    const options = await getRandomOptionsForCategory("instruments", 5, {
+      exclusions,
+    });
+
+    expect(options.map((option) => option.text).sort()).toEqual(
+      deck.slice(0, 2).sort()
+    );
+  });
+
+  it("prefers options that haven't been played yet", async () => {
+    const deck = await deckOf("animals");
+    const unseen = deck.slice(0, 3);
+    markPromptsSeen(deck.slice(3));
+
+    const options = await getRandomOptionsForCategory("animals", 3);
+
+    expect(options.map((option) => option.text).sort()).toEqual(
+      [...unseen].sort()
+    );
+  });
+
+  it("tops up from played options and forgets them once the deck runs out", async () => {
+    const deck = await deckOf("animals");
+    markPromptsSeen(deck.slice(3));
+
+    const options = await getRandomOptionsForCategory("animals", 5);
+    const texts = options.map((option) => option.text);
+
+    expect(options).toHaveLength(5);
+    expect(texts).toEqual(expect.arrayContaining(deck.slice(0, 3)));
+    for (const text of texts) {
+      expect(getSeenPrompts().has(text)).toBe(false);
+    }
+  });
+});
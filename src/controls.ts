@@ -0,0 +1,197 @@
+import { useEffect, useRef } from "react";
+
+export type ControlAction = "correct" | "skip" | "pause";
+
+export const CONTROL_ACTIONS: ControlAction[] = ["correct", "skip", "pause"];
+
+// Keys are KeyboardEvent.key values, with letters lowercased; gamepad buttons
+// use the standard mapping's indices
+export type ControlInput =
+  | { kind: "key"; key: string }
+  | { kind: "gamepad"; button: number };
+
+export type ControlBindings = Record<ControlAction, ControlInput[]>;
+
+const key = (key: string): ControlInput => ({ kind: "key", key });
+const button = (button: number): ControlInput => ({ kind: "gamepad", button });
+
+// Left and down score, like the left half of the screen and tilting down.
+// Presentation clickers send PageDown for "next" and PageUp for "back".
+export const DEFAULT_BINDINGS: ControlBindings = {
+  correct: [
+    key("Enter"),
+    key(" "),
+    key("ArrowLeft"),
+    key("ArrowDown"),
+    key("PageDown"),
+    button(0),
+  ],
+  skip: [key("ArrowRight"), key("ArrowUp"), key("PageUp"), button(1)],
+  pause: [key("Escape"), key("p"), button(9)],
+};
+
+const KEY_NAMES: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  PageUp: "Page Up",
+  PageDown: "Page Down",
+  Escape: "Esc",
+};
+
+// Standard gamepad mapping, named after the Xbox layout
+const GAMEPAD_BUTTON_NAMES = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Back",
+  "Start",
+  "L3",
+  "R3",
+  "D-pad ↑",
+  "D-pad ↓",
+  "D-pad ←",
+  "D-pad →",
+];
+
+export const formatInput = (input: ControlInput): string =>
+  input.kind === "key"
+    ? KEY_NAMES[input.key] ?? input.key.toUpperCase()
+    : `🎮 ${GAMEPAD_BUTTON_NAMES[input.button] ?? input.button}`;
+
+const isSameInput = (a: ControlInput, b: ControlInput) =>
+  a.kind === "key"
+    ? b.kind === "key" && a.key === b.key
+    : b.kind === "gamepad" && a.button === b.button;
+
+export const findAction = (
+  bindings: ControlBindings,
+  input: ControlInput
+): ControlAction | undefined =>
+  CONTROL_ACTIONS.find((action) =>
+    bindings[action].some((bound) => isSameInput(bound, input))
+  );
+
+// An input only ever triggers one action, so binding it moves it
+export const bindInput = (
+  bindings: ControlBindings,
+  action: ControlAction,
+  input: ControlInput
+): ControlBindings =>
+  Object.fromEntries(
+    CONTROL_ACTIONS.map((other) => [
+      other,
+      [
+        ...bindings[other].filter((bound) => !isSameInput(bound, input)),
+        ...(other === action ? [input] : []),
+      ],
+    ])
+  ) as ControlBindings;
+
+export const unbindInput = (
+  bindings: ControlBindings,
+  action: ControlAction,
+  input: ControlInput
+): ControlBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter((bound) => !isSameInput(bound, input)),
+});
+
+// Phones and tablets without a keyboard or gamepad don't need the legend
+export const hasPhysicalControls = (): boolean =>
+  window.matchMedia("(any-pointer: fine)").matches ||
+  (navigator.getGamepads?.() ?? []).some(Boolean);
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Calls onInput for every key press and every newly pressed gamepad button,
+// and swallows the key's default action when onInput returns true
+const watchInputs = (onInput: (input: ControlInput) => boolean) => {
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.repeat || isTyping(event.target)) return;
+
+    const pressed =
+      event.key.length === 1 ? event.key.toLowerCase() : event.key;
+    if (onInput(key(pressed))) event.preventDefault();
+  };
+
+  // The Gamepad API has no button events, so poll once per frame. Buttons
+  // already held on the first poll don't count.
+  const held = new Set<string>();
+  let primed = false;
+  let frame = 0;
+  const poll = () => {
+    for (const gamepad of navigator.getGamepads?.() ?? []) {
+      gamepad?.buttons.forEach((state, index) => {
+        const id = `${gamepad.index}:${index}`;
+        if (!state.pressed) {
+          held.delete(id);
+        } else if (!held.has(id)) {
+          held.add(id);
+          if (primed) onInput(button(index));
+        }
+      });
+    }
+    primed = true;
+    frame = requestAnimationFrame(poll);
+  };
+
+  window.addEventListener("keydown", handleKeyDown);
+  frame = requestAnimationFrame(poll);
+  return () => {
+    window.removeEventListener("keydown", handleKeyDown);
+    cancelAnimationFrame(frame);
+  };
+};
+
+export const useGameControls = (
+  bindings: ControlBindings,
+  onAction: (action: ControlAction) => void
+) => {
+  const onActionRef = useRef(onAction);
+
+  useEffect(() => {
+    onActionRef.current = onAction;
+  });
+
+  useEffect(
+    () =>
+      watchInputs((input) => {
+        const action = findAction(bindings, input);
+        if (!action) return false;
+        onActionRef.current(action);
+        return true;
+      }),
+    [bindings]
+  );
+};
+
+// Reports the next key or gamepad button pressed, for remapping controls
+export const useInputCapture = (
+  active: boolean,
+  onCapture: (input: ControlInput) => void
+) => {
+  const onCaptureRef = useRef(onCapture);
+
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  });
+
+  useEffect(() => {
+    if (!active) return;
+    return watchInputs((input) => {
+      onCaptureRef.current(input);
+      return true;
+    });
+  }, [active]);
+};
@@ -0,0 +1,65 @@
+import { MAX_PROMPT_LENGTH } from "./promptFormat";
+import { PromptOption } from "./types";
+
+export interface CustomDeck {
+  id: string;
+  name: string;
+  emoji: string;
+  options: PromptOption[];
+}
+
+const STORAGE_KEY = "charader:customDecks";
+
+export const MAX_DECK_NAME_LENGTH = 40;
+// Room for emoji joined from several others, like 👨‍👩‍👧‍👦
+export const MAX_DECK_EMOJI_LENGTH = 16;
+
+export const createDeckId = () =>
+  `deck-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Trims prompts and drops empty, overlong and repeated ones, so decks from
+// elsewhere follow the same rules as the deck editor and importer
+export const normalizeDeckOptions = (
+  options: PromptOption[]
+): PromptOption[] => {
+  const seen = new Set<string>();
+  return options.flatMap((option) => {
+    const text = option.text.trim();
+    const key = text.toLowerCase();
+    if (!text || text.length > MAX_PROMPT_LENGTH || seen.has(key)) return [];
+    seen.add(key);
+    return [{ ...option, text }];
+  });
+};
+
+export const getCustomDecks = (): CustomDeck[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CustomDeck[]) : [];
+  } catch (error) {
+    console.error("Failed to read custom decks:", error);
+    return [];
+  }
+};
+
+const saveCustomDecks = (decks: CustomDeck[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(decks));
+  } catch (error) {
+    console.error("Failed to save custom decks:", error);
+  }
+};
+
+export const saveCustomDeck = (deck: CustomDeck) => {
+  const decks = getCustomDecks();
+  const index = decks.findIndex((d) => d.id === deck.id);
+  saveCustomDecks(
+    index === -1
+      ? [...decks, deck]
+      : decks.map((d, i) => (i === index ? deck : d))
+  );
+};
+
+export const deleteCustomDeck = (id: string) => {
+  saveCustomDecks(getCustomDecks().filter((deck) => deck.id !== id));
+};
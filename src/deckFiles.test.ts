@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { saveCustomDeck } from "./customDecks";
+import {
+  DeckFile,
+  exportDeckAsJson,
+  importDeckFile,
+  loadExportableDeck,
+} from "./deckFiles";
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe("importDeckFile", () => {
+  it.each(["null", "42", '"decks"', "[]"])(
+    "reports %s as not being a deck file",
+    async (content) => {
+      expect(await importDeckFile("decks.json", content, "Imported")).toEqual({
+        decks: [],
+        issues: [{ code: "notDeckFile" }],
+      });
+    }
+  );
+});
+
+describe("exportDeckAsJson", () => {
+  const exportedCategory = async (id: string) =>
+    (JSON.parse(exportDeckAsJson((await loadExportableDeck(id))!)) as DeckFile)
+      .categories[0];
+
+  it("keeps the prompt built-in decks are played with", async () => {
+    expect(await exportedCategory("medieval-items")).toMatchObject({
+      name: "🏰 Medieval Items",
+      prompt: "medieval items",
+    });
+  });
+
+  it("uses the name as the prompt of the player's own decks", async () => {
+    saveCustomDeck({
+      id: "deck-1",
+      name: "Films",
+      emoji: "🎬",
+      options: [{ text: "Jaws" }],
+    });
+
+    expect(await exportedCategory("deck-1")).toEqual({
+      id: "deck-1",
+      name: "🎬 Films",
+      prompt: "Films",
+      options: ["Jaws"],
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import { ALL_CATEGORIES, loadCategoryOptions } from "./categories";
+import { CustomDeck, createDeckId, getCustomDecks } from "./customDecks";
+import { DIFFICULTIES, MAX_PROMPT_LENGTH } from "./promptFormat";
+import { PromptOption } from "./types";
+
+export const DECK_FILE_FORMAT = "charader-deck";
+export const DECK_FILE_VERSION = 1;
+
+// Mirrors the Category interface in categories.ts, with an optional
+// difficulty per option
+export interface DeckFileCategory {
+  id: string;
+  name: string;
+  prompt: string;
+  options: (string | PromptOption)[];
+}
+
+export interface DeckFile {
+  format: typeof DECK_FILE_FORMAT;
+  version: number;
+  categories: DeckFileCategory[];
+}
+
+export type ImportIssueCode =
+  | "unreadableFile"
+  | "invalidJson"
+  | "notDeckFile"
+  | "unsupportedVersion"
+  | "invalidDeck"
+  | "emptyPrompt"
+  | "promptTooLong"
+  | "unknownDifficulty"
+  | "alreadyInDeck";
+
+// A CSV line, or a deck in a JSON file and optionally one of its prompts
+export type ImportLocation =
+  | { line: number }
+  | { deck: number; prompt?: number };
+
+// Translated for display; the file as a whole when there's no location
+export interface ImportIssue {
+  code: ImportIssueCode;
+  location?: ImportLocation;
+  params?: Record<string, string | number>;
+}
+
+export interface ImportedDeck {
+  deck: CustomDeck;
+  // How many of the deck's options are new
+  added: number;
+}
+
+export interface ImportResult {
+  decks: ImportedDeck[];
+  issues: ImportIssue[];
+}
+
+interface ImportRow {
+  location: ImportLocation;
+  text: string;
+  category?: string;
+  difficulty?: string;
+}
+
+const DEFAULT_EMOJI = "🃏";
+
+// Splits "🎬 TV Shows & Movies" into its emoji and its name
+export const splitEmoji = (name: string): { emoji: string; name: string } => {
+  const match = name.match(
+    /^(\p{Extended_Pictographic}(?:[\uFE0F\u200D]|\p{Extended_Pictographic})*)\s*(.*)$/u
+  );
+  return match
+    ? { emoji: match[1], name: match[2] }
+    : { emoji: DEFAULT_EMOJI, name };
+};
+
+const normalizeName = (name: string) =>
+  splitEmoji(name.trim()).name.toLowerCase();
+
+// Built-in decks are played with a prompt of their own; the player's own
+// decks use their name
+export interface ExportableDeck extends CustomDeck {
+  prompt: string;
+}
+
+export type DeckSummary = Omit<ExportableDeck, "options">;
+
+// Every category that can be exported: built-in decks and the player's own
+export const getExportableDecks = (): DeckSummary[] => [
+  ...ALL_CATEGORIES.filter((cat) => cat.count).map((cat) => ({
+    id: cat.id,
+    ...splitEmoji(cat.name),
+    prompt: cat.prompt,
+  })),
+  ...getCustomDecks().map(({ id, name, emoji }) => ({
+    id,
+    name,
+    emoji,
+    prompt: name,
+  })),
+];
+
+const withOptions = async (deck: DeckSummary): Promise<ExportableDeck> => ({
+  ...deck,
+  options: await loadCategoryOptions(deck.id),
+});
+
+// Built-in decks' options are only loaded when they're needed
+export const loadExportableDeck = async (
+  id: string
+): Promise<ExportableDeck | undefined> => {
+  const deck = getExportableDecks().find((d) => d.id === id);
+  return deck && withOptions(deck);
+};
+
+export const exportDeckAsJson = (deck: CustomDeck | ExportableDeck): string => {
+  const file: DeckFile = {
+    format: DECK_FILE_FORMAT,
+    version: DECK_FILE_VERSION,
+    categories: [
+      {
+        id: deck.id,
+        name: `${deck.emoji} ${deck.name}`,
+        prompt: "prompt" in deck ? deck.prompt : deck.name,
+        options: deck.options.map((option) =>
+          option.difficulty ? option : option.text
+        ),
+      },
+    ],
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const escapeCsv = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportDeckAsCsv = (deck: CustomDeck): string =>
+  [
+    "prompt,category,difficulty",
+    ...deck.options.map((option) =>
+      [option.text, deck.name, option.difficulty ?? ""].map(escapeCsv).join(",")
+    ),
+  ].join("\n");
+
+export const downloadFile = (
+  filename: string,
+  content: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Parses RFC 4180 CSV, keeping the line each record starts on
+export const parseCsv = (
+  content: string
+): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some((f) => f.trim())) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+
+  return records;
+};
+
+const csvToRows = (content: string): ImportRow[] => {
+  const records = parseCsv(content);
+  if (records.length === 0) return [];
+
+  // A header row is optional; without one the columns are positional
+  const header = records[0].fields.map((f) => f.trim().toLowerCase());
+  const hasHeader = header.includes("prompt") || header.includes("text");
+  const column = (name: string, fallback: number) =>
+    hasHeader ? header.indexOf(name) : fallback;
+  const textColumn = hasHeader
+    ? Math.max(header.indexOf("prompt"), header.indexOf("text"))
+    : 0;
+  const categoryColumn = column("category", 1);
+  const difficultyColumn = column("difficulty", 2);
+
+  return records.slice(hasHeader ? 1 : 0).map(({ line, fields }) => ({
+    location: { line },
+    text: fields[textColumn] ?? "",
+    category: fields[categoryColumn]?.trim() || undefined,
+    difficulty: fields[difficultyColumn]?.trim().toLowerCase() || undefined,
+  }));
+};
+
+const jsonToRows = (content: string, issues: ImportIssue[]): ImportRow[] => {
+  let file: Partial<DeckFile> | null;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    issues.push({ code: "invalidJson" });
+    return [];
+  }
+
+  // Valid JSON can still be null, a number or a string
+  if (
+    typeof file !== "object" ||
+    file === null ||
+    file.format !== DECK_FILE_FORMAT ||
+    !Array.isArray(file.categories)
+  ) {
+    issues.push({ code: "notDeckFile" });
+    return [];
+  }
+  if (typeof file.version !== "number" || file.version > DECK_FILE_VERSION) {
+    issues.push({
+      code: "unsupportedVersion",
+      params: { version: String(file.version) },
+    });
+    return [];
+  }
+
+  return file.categories.flatMap((category, deckIndex) => {
+    const deck = deckIndex + 1;
+    if (
+      typeof category?.name !== "string" ||
+      !Array.isArray(category.options)
+    ) {
+      issues.push({ code: "invalidDeck", location: { deck } });
+      return [];
+    }
+
+    return category.options.map((option, optionIndex) => {
+      const location = { deck, prompt: optionIndex + 1 };
+      return typeof option === "string"
+        ? { location, text: option, category: category.name }
+        : {
+            location,
+            text: typeof option?.text === "string" ? option.text : "",
+            category: category.name,
+            difficulty: option?.difficulty,
+          };
+    });
+  });
+};
+
+// Groups rows into decks, merging into existing custom decks with the same
+// name and skipping anything already in a deck of that name
+const rowsToDecks = async (
+  rows: ImportRow[],
+  defaultName: string,
+  issues: ImportIssue[]
+): Promise<ImportedDeck[]> => {
+  const customDecks = getCustomDecks();
+  // Only the decks being imported into are needed
+  const names = new Set(
+    rows.map((row) => normalizeName(row.category ?? defaultName))
+  );
+  const existingDecks = await Promise.all(
+    getExportableDecks()
+      .filter((deck) => names.has(normalizeName(deck.name)))
+      .map(withOptions)
+  );
+  const decks = new Map<string, ImportedDeck>();
+  const seenByDeck = new Map<string, Set<string>>();
+
+  for (const row of rows) {
+    const text = row.text.trim();
+    if (!text) {
+      issues.push({ code: "emptyPrompt", location: row.location });
+      continue;
+    }
+    if (text.length > MAX_PROMPT_LENGTH) {
+      issues.push({
+        code: "promptTooLong",
+        location: row.location,
+        params: { max: MAX_PROMPT_LENGTH },
+      });
+      continue;
+    }
+
+    const difficulty = row.difficulty
+      ? DIFFICULTIES.find((d) => d === row.difficulty)
+      : undefined;
+    if (row.difficulty && !difficulty) {
+      issues.push({
+        code: "unknownDifficulty",
+        location: row.location,
+        params: { difficulty: row.difficulty },
+      });
+      continue;
+    }
+
+    const fullName = row.category ?? defaultName;
+    const key = normalizeName(fullName);
+
+    if (!decks.has(key)) {
+      const existing = customDecks.find((d) => normalizeName(d.name) === key);
+      decks.set(key, {
+        deck: existing
+          ? { ...existing, options: [...existing.options] }
+          : { id: createDeckId(), ...splitEmoji(fullName.trim()), options: [] },
+        added: 0,
+      });
+      seenByDeck.set(
+        key,
+        new Set(
+          existingDecks
+            .filter((deck) => normalizeName(deck.name) === key)
+            .flatMap((deck) =>
+              deck.options.map((option) => option.text.toLowerCase())
+            )
+        )
+      );
+    }
+
+    const seen = seenByDeck.get(key) as Set<string>;
+    if (seen.has(text.toLowerCase())) {
+      issues.push({
+        code: "alreadyInDeck",
+        location: row.location,
+        params: { text },
+      });
+      continue;
+    }
+
+    seen.add(text.toLowerCase());
+    const imported = decks.get(key) as ImportedDeck;
+    imported.deck.options.push({ text, difficulty });
+    imported.added += 1;
+  }
+
+  return [...decks.values()].filter((imported) => imported.added > 0);
+};
+
+// Rows without a category go into a deck named after the file, or
+// fallbackName when the file has no name
+export const importDeckFile = async (
+  filename: string,
+  content: string,
+  fallbackName: string
+): Promise<ImportResult> => {
+  const issues: ImportIssue[] = [];
+  const rows = filename.toLowerCase().endsWith(".json")
+    ? jsonToRows(content, issues)
+    : csvToRows(content);
+  const defaultName = filename.replace(/\.[^.]+$/, "") || fallbackName;
+
+  return { decks: await rowsToDecks(rows, defaultName, issues), issues };
+};
@@ -0,0 +1,44 @@
+import { Locale } from "./i18n";
+import { PromptOption } from "./types";
+
+// What a pack says about itself. src/decks/index.json lists this for every
+// pack, so categories can be shown before any of their options are loaded.
+export interface DeckPackInfo {
+  id: string;
+  locale: Locale;
+  // Bumped whenever the options change
+  version: number;
+  emoji: string;
+  name: string;
+  // What AI providers are asked for
+  prompt: string;
+  // How many options the pack has
+  count: number;
+}
+
+// src/decks/<locale>/<id>.json
+export interface DeckPack extends DeckPackInfo {
+  // Left out of translations that play the English deck
+  options?: PromptOption[];
+}
+
+// Translations without their own options play the English ones
+export const FALLBACK_LOCALE: Locale = "en";
+
+export const getPackInfo = ({
+  id,
+  locale,
+  version,
+  emoji,
+  name,
+  prompt,
+  count,
+}: DeckPack): DeckPackInfo => ({
+  id,
+  locale,
+  version,
+  emoji,
+  name,
+  prompt,
+  count,
+});
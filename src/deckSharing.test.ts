@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MAX_DECK_EMOJI_LENGTH, MAX_DECK_NAME_LENGTH } from "./customDecks";
+import { decodeDeck, encodeDeck } from "./deckSharing";
+import { MAX_PROMPT_LENGTH } from "./promptFormat";
+
+const sharedDeck = {
+  id: "deck-1",
+  name: " Films ",
+  emoji: "🎬",
+  options: [{ text: "Jaws", difficulty: "easy" as const }, { text: "Up" }],
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("decodeDeck", () => {
+  it("reads back an encoded deck under a new id", async () => {
+    const deck = await decodeDeck(await encodeDeck(sharedDeck));
+
+    expect(deck).toEqual({ ...sharedDeck, id: deck?.id, name: "Films" });
+    expect(deck?.id).not.toBe(sharedDeck.id);
+  });
+
+  it("cleans up options the same way local decks are", async () => {
+    const deck = await decodeDeck(
+      await encodeDeck({
+        ...sharedDeck,
+        options: [
+          { text: "  Jaws " },
+          { text: "jaws", difficulty: "hard" },
+          { text: "   " },
+          { text: "x".repeat(MAX_PROMPT_LENGTH + 1) },
+          { text: "Up" },
+        ],
+      })
+    );
+
+    expect(deck?.options).toEqual([{ text: "Jaws" }, { text: "Up" }]);
+  });
+
+  it("rejects decks with no usable options", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(
+      await decodeDeck(
+        await encodeDeck({ ...sharedDeck, options: [{ text: " " }] })
+      )
+    ).toBeNull();
+    expect(await decodeDeck("not a deck")).toBeNull();
+  });
+
+  it("caps the name and emoji", async () => {
+    expect(
+      await decodeDeck(
+        await encodeDeck({
+          ...sharedDeck,
+          name: "x".repeat(MAX_DECK_NAME_LENGTH + 1),
+        })
+      )
+    ).toBeNull();
+    expect(
+      (
+        await decodeDeck(
+          await encodeDeck({
+            ...sharedDeck,
+            emoji: "🎬".repeat(MAX_DECK_EMOJI_LENGTH),
+          })
+        )
+      )?.emoji
+    ).toBe("🃏");
+  });
+
+  it("rejects links that inflate into huge decks", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const encoded = await encodeDeck({
+      ...sharedDeck,
+      options: Array.from({ length: 20_000 }, () => ({ text: "Jaws" })),
+    });
+
+    expect(encoded.length).toBeLessThan(1000);
+    expect(await decodeDeck(encoded)).toBeNull();
+  });
+});
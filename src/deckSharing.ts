@@ -0,0 +1,162 @@
+import {
+  CustomDeck,
+  MAX_DECK_EMOJI_LENGTH,
+  MAX_DECK_NAME_LENGTH,
+  createDeckId,
+  normalizeDeckOptions,
+} from "./customDecks";
+import { DIFFICULTIES, Difficulty } from "./promptFormat";
+import { PromptOption } from "./types";
+
+// Options with a difficulty are stored as [text, difficulty] to keep links short
+interface SharedDeckPayload {
+  v: number;
+  n: string;
+  e: string;
+  o: (string | [string, Difficulty])[];
+}
+
+const FRAGMENT_PREFIX = "#deck=";
+const PAYLOAD_VERSION = 1;
+
+// Longer links get truncated by some messengers and no longer fit in a
+// readable QR code, so bigger decks are shared as a file instead
+export const MAX_SHARE_URL_LENGTH = 2000;
+// Far more than fits in a shareable link. Deflate packs repetitive text very
+// tightly, so a crafted link could otherwise inflate into megabytes.
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+    char.charCodeAt(0)
+  );
+
+const transform = async (
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes]).stream().pipeThrough(stream)
+    ).arrayBuffer()
+  );
+
+export const encodeDeck = async (deck: CustomDeck): Promise<string> => {
+  const payload: SharedDeckPayload = {
+    v: PAYLOAD_VERSION,
+    n: deck.name,
+    e: deck.emoji,
+    o: deck.options.map((option) =>
+      option.difficulty ? [option.text, option.difficulty] : option.text
+    ),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(
+    await transform(json, new CompressionStream("deflate-raw"))
+  );
+};
+
+// Stops reading as soon as the payload outgrows MAX_PAYLOAD_BYTES
+const inflate = async (bytes: Uint8Array): Promise<string> => {
+  const reader = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+    .getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_PAYLOAD_BYTES) {
+      await reader.cancel();
+      throw new Error(`Shared deck is over ${MAX_PAYLOAD_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks).text();
+};
+
+const parseOption = (option: unknown): PromptOption | null => {
+  if (typeof option === "string") return { text: option };
+  if (
+    Array.isArray(option) &&
+    typeof option[0] === "string" &&
+    DIFFICULTIES.includes(option[1])
+  ) {
+    return { text: option[0], difficulty: option[1] };
+  }
+  return null;
+};
+
+// Returns null for anything that isn't a valid shared deck
+export const decodeDeck = async (
+  encoded: string
+): Promise<CustomDeck | null> => {
+  try {
+    const payload = JSON.parse(
+      await inflate(fromBase64Url(encoded))
+    ) as Partial<SharedDeckPayload>;
+
+    if (
+      payload.v !== PAYLOAD_VERSION ||
+      typeof payload.n !== "string" ||
+      !payload.n.trim() ||
+      payload.n.trim().length > MAX_DECK_NAME_LENGTH ||
+      !Array.isArray(payload.o)
+    ) {
+      return null;
+    }
+
+    const options = normalizeDeckOptions(
+      payload.o
+        .map(parseOption)
+        .filter((option): option is PromptOption => !!option)
+    );
+    if (options.length === 0) return null;
+
+    return {
+      id: createDeckId(),
+      name: payload.n.trim(),
+      emoji:
+        typeof payload.e === "string" &&
+        payload.e &&
+        payload.e.length <= MAX_DECK_EMOJI_LENGTH
+          ? payload.e
+          : "🃏",
+      options,
+    };
+  } catch (error) {
+    console.error("Failed to read shared deck:", error);
+    return null;
+  }
+};
+
+// Resolves to null when the link would be too long to share
+export const getShareUrl = async (deck: CustomDeck): Promise<string | null> => {
+  const url = `${window.location.origin}${
+    window.location.pathname
+  }${FRAGMENT_PREFIX}${await encodeDeck(deck)}`;
+  return url.length <= MAX_SHARE_URL_LENGTH ? url : null;
+};
+
+export const hasSharedDeck = () =>
+  window.location.hash.startsWith(FRAGMENT_PREFIX);
+
+export const readSharedDeck = (): Promise<CustomDeck | null> =>
+  decodeDeck(window.location.hash.slice(FRAGMENT_PREFIX.length));
+
+export const clearSharedDeck = () => {
+  window.history.replaceState(
+    null,
+    "",
+    window.location.pathname + window.location.search
+  );
+};
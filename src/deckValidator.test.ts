@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { getBuiltInCategories, loadCategoryOptions } from "./categories";
+import { DeckToValidate, validateDecks } from "./deckValidator";
+import { LOCALES } from "./i18n";
+
+const deck = (
+  id: string,
+  texts: string[],
+  name = `🎬 ${id}`
+): DeckToValidate => ({
+  id,
+  name,
+  options: texts.map((text) => ({ text })),
+});
+
+// Small decks keep the examples short
+const check = (decks: DeckToValidate[]) =>
+  validateDecks(decks, { minOptions: 1 });
+
+const kinds = (decks: DeckToValidate[]) =>
+  check(decks).map(({ kind, severity, category }) => ({
+    kind,
+    severity,
+    category,
+  }));
+
+describe("validateDecks", () => {
+  it("passes a clean deck", () => {
+    expect(check([deck("movies", ["Jaws", "Up", "Toy Story"])])).toEqual([]);
+  });
+
+  it("reports options listed twice in a deck", () => {
+    expect(kinds([deck("movies", ["Jaws", "jaws "])])).toEqual([
+      { kind: "whitespace", severity: "error", category: "movies" },
+      { kind: "duplicate", severity: "error", category: "movies" },
+    ]);
+  });
+
+  it("reports options in more than one deck, warning about near-duplicates", () => {
+    const issues = check([
+      deck("animals", ["Penguin"]),
+      deck("villains", ["Penguin", "The Joker"]),
+      deck("accents", ["Joker"]),
+    ]);
+
+    expect(issues).toEqual([
+      {
+        kind: "duplicate",
+        severity: "error",
+        category: "villains",
+        message: '"Penguin" is also in animals as "Penguin"',
+      },
+      {
+        kind: "nearDuplicate",
+        severity: "warning",
+        category: "accents",
+        message: '"Joker" is also in villains as "The Joker"',
+      },
+    ]);
+  });
+
+  it("warns about near-duplicates in a deck", () => {
+    expect(
+      kinds([
+        deck("idioms", ["Crying over spilled milk", "Cry over spilled milk"]),
+      ])
+    ).toEqual([
+      { kind: "nearDuplicate", severity: "warning", category: "idioms" },
+    ]);
+  });
+
+  it("reports stray whitespace", () => {
+    expect(
+      kinds([
+        deck("movies", [" Jaws", "Star  Wars", "Toy\tStory", "Up\n"]),
+      ]).map(({ kind }) => kind)
+    ).toEqual(["whitespace", "whitespace", "whitespace", "whitespace"]);
+  });
+
+  it("reports options that are too short, too long or far longer than the rest", () => {
+    const issues = check([
+      deck("movies", [
+        "Jaws",
+        "Up",
+        "Toy Story",
+        "J",
+        "A film whose title goes on and on and on and on and on and on",
+        "The one about the shark and the boat",
+      ]),
+    ]);
+
+    expect(issues.map(({ kind, severity }) => [kind, severity])).toEqual([
+      ["length", "error"],
+      ["length", "error"],
+      ["length", "warning"],
+    ]);
+  });
+
+  it("reports names without an emoji, including categories without options", () => {
+    expect(
+      kinds([
+        { id: "misc", name: "All Categories" },
+        deck("movies", ["Jaws"], "Movies"),
+        deck("songs", ["Happy"], "🎵 Songs"),
+      ])
+    ).toEqual([
+      { kind: "missingEmoji", severity: "error", category: "misc" },
+      { kind: "missingEmoji", severity: "error", category: "movies" },
+    ]);
+  });
+
+  it("reports decks with too few options", () => {
+    expect(
+      validateDecks([deck("empty", []), deck("small", ["Jaws", "Up"])]).map(
+        ({ kind, category }) => [kind, category]
+      )
+    ).toEqual([
+      ["tooFewOptions", "empty"],
+      ["tooFewOptions", "small"],
+    ]);
+    expect(
+      validateDecks([deck("small", ["Jaws", "Up"])], { minOptions: 2 })
+    ).toEqual([]);
+  });
+
+  it.each(LOCALES.map(({ id }) => id))(
+    "finds no errors in the built-in %s decks",
+    async (locale) => {
+      const decks = await Promise.all(
+        getBuiltInCategories(locale).map(async (category) =>
+          category.count
+            ? {
+                ...category,
+                options: await loadCategoryOptions(category.id, locale),
+              }
+            : category
+        )
+      );
+      expect(
+        validateDecks(decks).filter((issue) => issue.severity === "error")
+      ).toEqual([]);
+    }
+  );
+});
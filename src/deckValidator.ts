@@ -0,0 +1,173 @@
+import {
+  MAX_PROMPT_LENGTH,
+  isNearDuplicate,
+  normalizePrompt,
+} from "./promptFormat";
+import { PromptOption } from "./types";
+
+export type DeckIssueKind =
+  | "duplicate"
+  | "nearDuplicate"
+  | "whitespace"
+  | "length"
+  | "missingEmoji"
+  | "tooFewOptions";
+
+export interface DeckIssue {
+  kind: DeckIssueKind;
+  // Errors are mistakes; warnings are worth a look, but are often on purpose,
+  // e.g. "The Joker" as a villain and "Joker" as an impression
+  severity: "error" | "warning";
+  // The id of the category the issue was found in
+  category: string;
+  message: string;
+}
+
+export interface DeckToValidate {
+  id: string;
+  name: string;
+  // Categories such as "All Categories" have no options of their own
+  options?: readonly PromptOption[];
+}
+
+export interface DeckValidationOptions {
+  minOptions?: number;
+  // How many times longer than a deck's typical option one may be before
+  // it's worth a look
+  maxLengthRatio?: number;
+}
+
+// Enough that a round in a single category doesn't repeat itself straight away
+const MIN_OPTIONS = 30;
+const MAX_LENGTH_RATIO = 3;
+const MIN_PROMPT_LENGTH = 2;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const hasStrayWhitespace = (text: string) =>
+  text !== text.trim() || /\s{2,}|[^\S ]/.test(text);
+
+const checkOptions = (
+  deck: DeckToValidate,
+  options: readonly PromptOption[],
+  { minOptions, maxLengthRatio }: Required<DeckValidationOptions>
+): DeckIssue[] => {
+  const issues: DeckIssue[] = [];
+  const report = (
+    kind: DeckIssueKind,
+    severity: DeckIssue["severity"],
+    message: string
+  ) => issues.push({ kind, severity, category: deck.id, message });
+
+  if (options.length < minOptions) {
+    report(
+      "tooFewOptions",
+      "error",
+      `Has ${options.length} options, fewer than ${minOptions}`
+    );
+  }
+
+  const typicalLength = median(
+    options.map((option) => option.text.trim().length)
+  );
+  // Lowercased text → as written
+  const seen = new Map<string, string>();
+
+  for (const { text } of options) {
+    if (hasStrayWhitespace(text)) {
+      report("whitespace", "error", `"${text}" has stray whitespace`);
+    }
+
+    const trimmed = text.trim();
+    if (trimmed.length < MIN_PROMPT_LENGTH) {
+      report("length", "error", `"${trimmed}" is too short to act out`);
+    } else if (trimmed.length > MAX_PROMPT_LENGTH) {
+      report(
+        "length",
+        "error",
+        `"${trimmed}" is longer than ${MAX_PROMPT_LENGTH} characters`
+      );
+    } else if (trimmed.length > typicalLength * maxLengthRatio) {
+      report(
+        "length",
+        "warning",
+        `"${trimmed}" is ${trimmed.length} characters long, where most are about ${typicalLength}`
+      );
+    }
+
+    const key = trimmed.toLowerCase();
+    if (seen.has(key)) {
+      report("duplicate", "error", `"${trimmed}" is listed more than once`);
+      continue;
+    }
+
+    const similar = [...seen.values()].find((other) =>
+      isNearDuplicate(other, trimmed)
+    );
+    if (similar) {
+      report(
+        "nearDuplicate",
+        "warning",
+        `"${trimmed}" is nearly the same as "${similar}"`
+      );
+    }
+    seen.set(key, trimmed);
+  }
+
+  return issues;
+};
+
+// Finds the mistakes that slip into hand-edited decks. Prompts are keyed by
+// their text when a game starts, so an option in two categories is an error
+// too, as it's only ever shown with one of their names.
+export const validateDecks = (
+  decks: readonly DeckToValidate[],
+  {
+    minOptions = MIN_OPTIONS,
+    maxLengthRatio = MAX_LENGTH_RATIO,
+  }: DeckValidationOptions = {}
+): DeckIssue[] => {
+  const issues: DeckIssue[] = [];
+  // Normalized text → the category and text it was first seen with
+  const owners = new Map<string, { category: string; text: string }>();
+
+  for (const deck of decks) {
+    if (!/^\p{Extended_Pictographic}/u.test(deck.name)) {
+      issues.push({
+        kind: "missingEmoji",
+        severity: "error",
+        category: deck.id,
+        message: `"${deck.name}" doesn't start with an emoji`,
+      });
+    }
+
+    if (!deck.options) continue;
+    issues.push(
+      ...checkOptions(deck, deck.options, { minOptions, maxLengthRatio })
+    );
+
+    for (const text of new Set(deck.options.map(({ text }) => text.trim()))) {
+      const key = normalizePrompt(text);
+      const owner = owners.get(key);
+      if (!owner) {
+        owners.set(key, { category: deck.id, text });
+      } else if (owner.category !== deck.id) {
+        const isDuplicate = owner.text.toLowerCase() === text.toLowerCase();
+        issues.push({
+          kind: isDuplicate ? "duplicate" : "nearDuplicate",
+          severity: isDuplicate ? "error" : "warning",
+          category: deck.id,
+          message: `"${text}" is also in ${owner.category} as "${owner.text}"`,
+        });
+      }
+    }
+  }
+
+  return issues;
+};
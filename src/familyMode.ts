@@ -0,0 +1,35 @@
+export interface FamilyModeSettings {
+  enabled: boolean;
+  // Once set, family mode can only be turned off with this PIN
+  pin: string | null;
+}
+
+const STORAGE_KEY = "charader:familyMode";
+
+export const PIN_LENGTH = 4;
+
+const DEFAULT_FAMILY_MODE: FamilyModeSettings = { enabled: false, pin: null };
+
+export const loadFamilyMode = (): FamilyModeSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return {
+      ...DEFAULT_FAMILY_MODE,
+      ...(stored ? (JSON.parse(stored) as Partial<FamilyModeSettings>) : {}),
+    };
+  } catch (error) {
+    console.error("Failed to read family mode:", error);
+    return DEFAULT_FAMILY_MODE;
+  }
+};
+
+export const saveFamilyMode = (settings: FamilyModeSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save family mode:", error);
+  }
+};
+
+export const isValidPin = (pin: string) =>
+  /^\d+$/.test(pin) && pin.length === PIN_LENGTH;
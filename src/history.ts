@@ -0,0 +1,128 @@
+import { GameConfig, GameResult } from "./types";
+
+export interface GameRecord {
+  id: string;
+  playedAt: number;
+  config: GameConfig;
+  results: GameResult[];
+  // Final team scores, only present for team games
+  scores?: number[];
+}
+
+export interface CategoryStats {
+  // Left out for results that were played without a category
+  category?: string;
+  games: number;
+  averageScore: number;
+}
+
+export interface SkippedPrompt {
+  prompt: string;
+  skips: number;
+}
+
+const DB_NAME = "charader";
+const DB_VERSION = 1;
+const GAMES_STORE = "games";
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(GAMES_STORE)) {
+        db.createObjectStore(GAMES_STORE, { keyPath: "id" }).createIndex(
+          "playedAt",
+          "playedAt"
+        );
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await promisify(
+      run(db.transaction(GAMES_STORE, mode).objectStore(GAMES_STORE))
+    );
+  } finally {
+    db.close();
+  }
+};
+
+// Records are keyed by game id, so saving the same game twice overwrites it
+export const saveGame = (record: GameRecord): Promise<IDBValidKey> =>
+  withStore("readwrite", (store) => store.put(record));
+
+export const getGames = async (): Promise<GameRecord[]> => {
+  const games = await withStore<GameRecord[]>("readonly", (store) =>
+    store.index("playedAt").getAll()
+  );
+  return games.reverse();
+};
+
+export const clearHistory = (): Promise<undefined> =>
+  withStore("readwrite", (store) => store.clear());
+
+export const getCategoryStats = (games: GameRecord[]): CategoryStats[] => {
+  const totals = new Map<
+    string | undefined,
+    { games: number; correct: number }
+  >();
+
+  for (const game of games) {
+    const correctByCategory = new Map<string | undefined, number>();
+    for (const { category, correct } of game.results) {
+      correctByCategory.set(
+        category,
+        (correctByCategory.get(category) ?? 0) + (correct ? 1 : 0)
+      );
+    }
+
+    for (const [category, correct] of correctByCategory) {
+      const total = totals.get(category) ?? { games: 0, correct: 0 };
+      total.games += 1;
+      total.correct += correct;
+      totals.set(category, total);
+    }
+  }
+
+  return [...totals]
+    .map(([category, { games, correct }]) => ({
+      category,
+      games,
+      averageScore: correct / games,
+    }))
+    .sort((a, b) => b.averageScore - a.averageScore);
+};
+
+export const getMostSkippedPrompts = (
+  games: GameRecord[],
+  limit = 10
+): SkippedPrompt[] => {
+  const skips: Record<string, number> = {};
+
+  for (const game of games) {
+    for (const result of game.results) {
+      if (!result.correct) {
+        skips[result.prompt] = (skips[result.prompt] ?? 0) + 1;
+      }
+    }
+  }
+
+  return Object.entries(skips)
+    .map(([prompt, count]) => ({ prompt, skips: count }))
+    .sort((a, b) => b.skips - a.skips)
+    .slice(0, limit);
+};
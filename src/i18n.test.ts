@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { translate } from "./i18n";
+
+describe("translate", () => {
+  it("fills in params", () => {
+    expect(translate("en", "room.codeLabel", { code: "ABCD" })).toBe(
+      "Room ABCD"
+    );
+  });
+
+  it("picks the plural form for the count", () => {
+    expect(translate("en", "common.prompts", { count: 1 })).toBe("1 prompt");
+    expect(translate("en", "common.prompts", { count: 0 })).toBe("0 prompts");
+    expect(translate("es", "setup.roomOpen", { code: "ABCD", count: 1 })).toBe(
+      "Sala ABCD · 1 jugador"
+    );
+    expect(translate("es", "setup.roomOpen", { code: "ABCD", count: 3 })).toBe(
+      "Sala ABCD · 3 jugadores"
+    );
+  });
+});
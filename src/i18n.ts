@@ -0,0 +1,550 @@
+import { createContext, useCallback, useContext } from "react";
+
+export type Locale = "en" | "es";
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "en", label: "English" },
+  { id: "es", label: "Español" },
+];
+
+// Written out in English, since that's what the AI prompt is written in
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Spanish",
+};
+
+// Messages that change with {count} have a form for each plural category
+// the language uses, as chosen by Intl.PluralRules
+type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+type Message = string | PluralMessage;
+
+const en = {
+  "common.back": "Back",
+  "common.cancel": "Cancel",
+  "common.settings": "Settings",
+  "common.prompts": { one: "{count} prompt", other: "{count} prompts" },
+  "difficulty.any": "Any",
+  "difficulty.mixed": "Mixed",
+  "difficulty.easy": "Easy",
+  "difficulty.medium": "Medium",
+  "difficulty.hard": "Hard",
+
+  "setup.history": "Game history",
+  "setup.roundDuration": "Round Duration",
+  "setup.seconds": { one: "{count} second", other: "{count} seconds" },
+  "setup.minutes": { one: "{count} minute", other: "{count} minutes" },
+  "setup.difficulty": "Difficulty",
+  "setup.weightedScoring":
+    "Harder prompts score more (easy 1, medium 2, hard 3)",
+  "setup.categories": "Categories",
+  "setup.resetSeen": "Reset seen prompts ({count})",
+  "setup.noSeen": "No seen prompts yet",
+  "setup.manageDecks": "Manage my decks",
+  "setup.room": "Play on several phones",
+  "setup.roomOpen": {
+    one: "Room {code} · {count} player",
+    other: "Room {code} · {count} players",
+  },
+  "setup.customCategory": "Custom Category",
+  "setup.customPlaceholder": "Enter your category (e.g., Disney Characters)",
+  "setup.customSaved": {
+    one: "You're offline, so this plays {count} saved prompt.",
+    other: "You're offline, so this plays {count} saved prompts.",
+  },
+  "setup.customNotSaved":
+    "You're offline and this category hasn't been saved for offline play.",
+  "setup.tiltControls": "Tilt Controls",
+  "setup.tiltHelp":
+    "Hold the phone to your forehead: tilt down for correct, up to skip.",
+  "setup.tiltDenied":
+    "Motion access was denied. Tap the screen to score instead.",
+  "setup.teamMode": "Team Mode",
+  "setup.teams": "Teams",
+  "setup.teamCount": { one: "{count} team", other: "{count} teams" },
+  "setup.rounds": "Rounds",
+  "setup.roundCount": { one: "{count} round", other: "{count} rounds" },
+  "setup.teamName": "Team name",
+  "setup.team": "Team",
+  "setup.players": "Players, comma separated (optional)",
+  "setup.startGame": "Start Game",
+  "setup.rules": "Scoring Rules",
+  "setup.maxSkips": "Skips per round",
+  "setup.unlimited": "Unlimited",
+  "setup.skipPenalty": "Skip penalty",
+  "setup.streakBonus": "Bonus for {count} correct in a row",
+  "setup.pointCount": { one: "{count} pt", other: "{count} pts" },
+  "setup.skipTimePenalty": "Each skip costs {seconds} seconds",
+
+  "family.title": "Family Mode",
+  "family.help": "Hides mature prompts and keeps AI prompts suitable for kids.",
+  "family.newPin": "New {length}-digit PIN",
+  "family.pin": "PIN",
+  "family.pinLabel": "Parental PIN",
+  "family.lock": "Lock",
+  "family.unlock": "Unlock",
+  "family.wrongPin": "Wrong PIN",
+  "family.lockWithPin": "Lock with a parental PIN",
+
+  "countdown.go": "GO!",
+  "countdown.tiltHint": "Hold the phone to your forehead",
+
+  "game.pause": "Pause",
+  "game.outOfPrompts": "Out of prompts!",
+  "game.loadingMore": "Loading more prompts...",
+  "game.retrying": "Couldn't load more prompts. Trying again...",
+  "game.paused": "Paused",
+  "game.resume": "Resume",
+  "game.restartRound": "Restart Round",
+  "game.endNow": "End Now",
+  "game.skipsLeft": "Skips left: {count}",
+
+  "handoff.round": "Round {round} of {rounds}",
+  "handoff.passPhone": "{team}, pass the phone to {player}",
+  "handoff.yourTurn": "{team}, you're up!",
+  "handoff.ready": "Ready",
+
+  "end.timesUp": "Time's Up!",
+  "end.gameOver": "Game Over!",
+  "end.wins": "{team} wins!",
+  "end.tie": "It's a tie between {teams}!",
+  "end.and": " and ",
+  "end.score": "Score: {correct} / {total}",
+  "end.weightedScore": "Score: {points} points ({correct} / {total} correct)",
+  "end.nextTurn": "Next Turn",
+  "end.playAgain": "Play Again",
+  "end.correctPoints": "Correct answers",
+  "end.streakBonus": "Streaks of {length} (×{count})",
+  "end.skipPenalty": "Skips (×{count})",
+  "end.total": "Total",
+
+  "settings.language": "Language",
+  "settings.deviceLanguage": "Device language ({language})",
+  "settings.promptSource": "Prompt Source",
+  "settings.provider.openai": "OpenAI (via prompt server)",
+  "settings.provider.compatible":
+    "OpenAI-compatible server (Ollama, llama.cpp)",
+  "settings.provider.static": "Built-in decks only (no AI)",
+  "settings.provider.mock": "Mock prompts (development)",
+  "settings.serverUrl": "Server URL",
+  "settings.model": "Model",
+  "settings.apiKey": "API Key (optional)",
+  "settings.controls": "Controls",
+  "settings.controlsHelp":
+    "Keys, gamepad buttons and presentation clicker buttons that score during a round.",
+  "settings.staticNote":
+    "Custom categories are unavailable without an AI prompt source, and rounds only use the built-in decks.",
+
+  "history.title": "History",
+  "history.clear": "Clear history",
+  "history.confirmClear": "Delete all game history?",
+  "history.empty": "No games played yet.",
+  "history.averageScore": "Average Score by Category",
+  "history.uncategorized": "Uncategorized",
+  "history.mostSkipped": "Most Skipped",
+  "history.pastGames": "Past Games",
+
+  "decks.title": "My Decks",
+  "decks.empty": "Create a deck to play your own prompts.",
+  "decks.share": "Share {name}",
+  "decks.edit": "Edit {name}",
+  "decks.delete": "Delete {name}",
+  "decks.confirmDelete": 'Delete "{name}"?',
+  "decks.newDeck": "New Deck",
+  "decks.import": "Import JSON or CSV",
+  "decks.importConfirm": "Import",
+  "decks.nothingToImport": "Nothing new to import",
+  "decks.importedDeck": "Imported deck",
+  "decks.issueFile": "File",
+  "decks.issueLine": "Line {line}",
+  "decks.issueDeck": "Deck {deck}",
+  "decks.issueDeckPrompt": "Deck {deck}, prompt {prompt}",
+  "decks.issue.unreadableFile": "The file couldn't be read",
+  "decks.issue.invalidJson": "Not valid JSON",
+  "decks.issue.notDeckFile": "Not a Charader deck file",
+  "decks.issue.unsupportedVersion": "Unsupported deck version {version}",
+  "decks.issue.invalidDeck": "Deck needs a name and a list of options",
+  "decks.issue.emptyPrompt": "Prompt is empty",
+  "decks.issue.promptTooLong": "Prompt is longer than {max} characters",
+  "decks.issue.unknownDifficulty": 'Unknown difficulty "{difficulty}"',
+  "decks.issue.alreadyInDeck": '"{text}" is already in this deck',
+  "decks.added": {
+    one: "{deck}: +{count} prompt",
+    other: "{deck}: +{count} prompts",
+  },
+  "decks.exportLabel": "Deck to export",
+  "decks.exportPlaceholder": "Export a deck…",
+  "decks.emoji": "Emoji",
+  "decks.name": "Deck name",
+  "decks.addPrompt": "Add a prompt",
+  "decks.addPromptLabel": "Add prompt",
+  "decks.noPrompts": "No prompts yet",
+  "decks.remove": "Remove {text}",
+  "decks.save": "Save Deck",
+  "decks.shareTitle": "Share {deck}",
+  "decks.qrCode": "QR code for {name}",
+  "decks.tooBig": "This deck is too big for a link, so it was saved as a file.",
+  "decks.shareUnsupported": "Sharing isn't supported in this browser.",
+  "decks.linkCopied": "Link copied!",
+  "decks.close": "Close",
+  "decks.shareLink": "Share Link",
+  "decks.copyLink": "Copy Link",
+  "decks.sharedWithYou": "Someone shared a deck with you",
+  "decks.addShared": "Add to My Decks",
+  "decks.noThanks": "No Thanks",
+
+  "controls.correct": "Correct",
+  "controls.skip": "Skip",
+  "controls.pause": "Pause",
+  "controls.add": "Add a key or button for {action}",
+  "controls.press": "Press a key or button…",
+  "controls.reset": "Reset to defaults",
+
+  "offline.title": "Offline Categories",
+  "offline.help":
+    "Custom categories you play are saved for offline games. Add more here while you're online, before a trip.",
+  "offline.add": "Save category for offline play",
+  "offline.generating": "Generating…",
+  "offline.waiting": "Waiting for a connection",
+
+  "presenter.title": "Presenter Screen",
+  "presenter.help":
+    "Show the timer, score and results on a TV or laptop while the phone stays with the actor. Prompts are never shown there.",
+  "presenter.room": "Room code",
+  "presenter.newRoom": "New code",
+  "presenter.relayUrl": "Relay URL (other devices)",
+  "presenter.relayHelp":
+    "Leave empty for a window on this device. For another device, run `yarn relay` on this network and enter e.g. ws://192.168.1.10:8788/presenter.",
+  "presenter.invalidRelayUrl":
+    "That isn't a relay URL yet, so it hasn't been saved.",
+  "presenter.open": "Open Presenter Window",
+  "presenter.link": "Presenter link",
+  "presenter.waiting": "Waiting for the game to start…",
+  "presenter.relayError":
+    "Can't reach the relay. Check the relay URL in the presenter link.",
+  "presenter.getReady": "Get ready!",
+  "presenter.correct": "{count} correct",
+
+  "room.title": "Rooms",
+  "room.help":
+    "Play with everyone on their own phone. This phone runs the game, and only whoever is acting sees the prompt.",
+  "room.serverUrl": "Room server",
+  "room.serverHelp":
+    "Run `yarn rooms` on this network. It works without an internet connection.",
+  "room.host": "Host a room",
+  "room.create": "Create Room",
+  "room.code": "Room code",
+  "room.codeLabel": "Room {code}",
+  "room.joinLink": "Link for players",
+  "room.connecting": "Connecting…",
+  "room.reconnecting": "Connection lost, reconnecting…",
+  "room.connectionError": "Can't connect to the room server. Check its URL.",
+  "room.players": "Players",
+  "room.away": "(away)",
+  "room.noPlayers": "Nobody has joined yet.",
+  "room.close": "Close Room",
+  "room.join": "Join a room",
+  "room.yourName": "Your name",
+  "room.notFound": "There's no room {code}.",
+  "room.youreActing": "You're acting!",
+  "room.isActing": "{name} is acting",
+  "room.waitingForHost": "Waiting for the host to start…",
+
+  "update.available": "A new version of Charader is available.",
+  "update.later": "Later",
+  "update.reload": "Reload",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, Message> = {
+  "common.back": "Atrás",
+  "common.cancel": "Cancelar",
+  "common.settings": "Ajustes",
+  "common.prompts": { one: "{count} tarjeta", other: "{count} tarjetas" },
+  "difficulty.any": "Cualquiera",
+  "difficulty.mixed": "Mezclada",
+  "difficulty.easy": "Fácil",
+  "difficulty.medium": "Media",
+  "difficulty.hard": "Difícil",
+
+  "setup.history": "Historial de partidas",
+  "setup.roundDuration": "Duración del turno",
+  "setup.seconds": { one: "{count} segundo", other: "{count} segundos" },
+  "setup.minutes": { one: "{count} minuto", other: "{count} minutos" },
+  "setup.difficulty": "Dificultad",
+  "setup.weightedScoring":
+    "Las tarjetas difíciles valen más (fácil 1, media 2, difícil 3)",
+  "setup.categories": "Categorías",
+  "setup.resetSeen": "Olvidar tarjetas vistas ({count})",
+  "setup.noSeen": "Aún no has visto ninguna tarjeta",
+  "setup.manageDecks": "Gestionar mis mazos",
+  "setup.room": "Jugar con varios móviles",
+  "setup.roomOpen": {
+    one: "Sala {code} · {count} jugador",
+    other: "Sala {code} · {count} jugadores",
+  },
+  "setup.customCategory": "Categoría personalizada",
+  "setup.customPlaceholder":
+    "Escribe tu categoría (p. ej., personajes de Disney)",
+  "setup.customSaved": {
+    one: "Sin conexión: se jugará con {count} tarjeta guardada.",
+    other: "Sin conexión: se jugará con {count} tarjetas guardadas.",
+  },
+  "setup.customNotSaved":
+    "Sin conexión, y esta categoría no está guardada para jugar sin internet.",
+  "setup.tiltControls": "Control por inclinación",
+  "setup.tiltHelp":
+    "Pon el móvil en tu frente: inclínalo hacia abajo si aciertas y hacia arriba para pasar.",
+  "setup.tiltDenied":
+    "Se denegó el acceso al movimiento. Toca la pantalla para puntuar.",
+  "setup.teamMode": "Modo equipos",
+  "setup.teams": "Equipos",
+  "setup.teamCount": { one: "{count} equipo", other: "{count} equipos" },
+  "setup.rounds": "Rondas",
+  "setup.roundCount": { one: "{count} ronda", other: "{count} rondas" },
+  "setup.teamName": "Nombre del equipo",
+  "setup.team": "Equipo",
+  "setup.players": "Jugadores, separados por comas (opcional)",
+  "setup.startGame": "Empezar partida",
+  "setup.rules": "Reglas de puntuación",
+  "setup.maxSkips": "Pases por turno",
+  "setup.unlimited": "Sin límite",
+  "setup.skipPenalty": "Penalización por pase",
+  "setup.streakBonus": "Bonus por {count} aciertos seguidos",
+  "setup.pointCount": { one: "{count} pt", other: "{count} pts" },
+  "setup.skipTimePenalty": "Cada pase resta {seconds} segundos",
+
+  "family.title": "Modo familiar",
+  "family.help":
+    "Oculta las tarjetas para adultos y mantiene las de la IA aptas para niños.",
+  "family.newPin": "PIN nuevo de {length} cifras",
+  "family.pin": "PIN",
+  "family.pinLabel": "PIN parental",
+  "family.lock": "Bloquear",
+  "family.unlock": "Desbloquear",
+  "family.wrongPin": "PIN incorrecto",
+  "family.lockWithPin": "Bloquear con un PIN parental",
+
+  "countdown.go": "¡YA!",
+  "countdown.tiltHint": "Pon el móvil en tu frente",
+
+  "game.pause": "Pausa",
+  "game.outOfPrompts": "¡No quedan tarjetas!",
+  "game.loadingMore": "Cargando más tarjetas...",
+  "game.retrying": "No se pudieron cargar más tarjetas. Reintentando...",
+  "game.paused": "En pausa",
+  "game.resume": "Continuar",
+  "game.restartRound": "Reiniciar turno",
+  "game.endNow": "Terminar ya",
+  "game.skipsLeft": "Pases restantes: {count}",
+
+  "handoff.round": "Ronda {round} de {rounds}",
+  "handoff.passPhone": "{team}, pasadle el móvil a {player}",
+  "handoff.yourTurn": "{team}, ¡os toca!",
+  "handoff.ready": "Listos",
+
+  "end.timesUp": "¡Se acabó el tiempo!",
+  "end.gameOver": "¡Fin de la partida!",
+  "end.wins": "¡Gana {team}!",
+  "end.tie": "¡Empate entre {teams}!",
+  "end.and": " y ",
+  "end.score": "Puntuación: {correct} / {total}",
+  "end.weightedScore":
+    "Puntuación: {points} puntos ({correct} / {total} aciertos)",
+  "end.nextTurn": "Siguiente turno",
+  "end.playAgain": "Jugar otra vez",
+  "end.correctPoints": "Aciertos",
+  "end.streakBonus": "Rachas de {length} (×{count})",
+  "end.skipPenalty": "Pases (×{count})",
+  "end.total": "Total",
+
+  "settings.language": "Idioma",
+  "settings.deviceLanguage": "Idioma del dispositivo ({language})",
+  "settings.promptSource": "Origen de las tarjetas",
+  "settings.provider.openai": "OpenAI (mediante el servidor de tarjetas)",
+  "settings.provider.compatible":
+    "Servidor compatible con OpenAI (Ollama, llama.cpp)",
+  "settings.provider.static": "Solo mazos incluidos (sin IA)",
+  "settings.provider.mock": "Tarjetas de prueba (desarrollo)",
+  "settings.serverUrl": "URL del servidor",
+  "settings.model": "Modelo",
+  "settings.apiKey": "Clave de API (opcional)",
+  "settings.controls": "Controles",
+  "settings.controlsHelp":
+    "Teclas, botones de mando y de presentador que puntúan durante un turno.",
+  "settings.staticNote":
+    "Sin un origen con IA no hay categorías personalizadas, y los turnos solo usan los mazos incluidos.",
+
+  "history.title": "Historial",
+  "history.clear": "Borrar historial",
+  "history.confirmClear": "¿Borrar todo el historial de partidas?",
+  "history.empty": "Aún no has jugado ninguna partida.",
+  "history.averageScore": "Puntuación media por categoría",
+  "history.uncategorized": "Sin categoría",
+  "history.mostSkipped": "Las más pasadas",
+  "history.pastGames": "Partidas anteriores",
+
+  "decks.title": "Mis mazos",
+  "decks.empty": "Crea un mazo para jugar con tus propias tarjetas.",
+  "decks.share": "Compartir {name}",
+  "decks.edit": "Editar {name}",
+  "decks.delete": "Borrar {name}",
+  "decks.confirmDelete": "¿Borrar «{name}»?",
+  "decks.newDeck": "Nuevo mazo",
+  "decks.import": "Importar JSON o CSV",
+  "decks.importConfirm": "Importar",
+  "decks.nothingToImport": "No hay nada nuevo que importar",
+  "decks.importedDeck": "Mazo importado",
+  "decks.issueFile": "Archivo",
+  "decks.issueLine": "Línea {line}",
+  "decks.issueDeck": "Mazo {deck}",
+  "decks.issueDeckPrompt": "Mazo {deck}, tarjeta {prompt}",
+  "decks.issue.unreadableFile": "No se ha podido leer el archivo",
+  "decks.issue.invalidJson": "No es un JSON válido",
+  "decks.issue.notDeckFile": "No es un archivo de mazos de Charader",
+  "decks.issue.unsupportedVersion": "Versión de mazo no compatible: {version}",
+  "decks.issue.invalidDeck":
+    "El mazo necesita un nombre y una lista de tarjetas",
+  "decks.issue.emptyPrompt": "La tarjeta está vacía",
+  "decks.issue.promptTooLong": "La tarjeta tiene más de {max} caracteres",
+  "decks.issue.unknownDifficulty": "Dificultad desconocida: «{difficulty}»",
+  "decks.issue.alreadyInDeck": "«{text}» ya está en este mazo",
+  "decks.added": {
+    one: "{deck}: +{count} tarjeta",
+    other: "{deck}: +{count} tarjetas",
+  },
+  "decks.exportLabel": "Mazo que exportar",
+  "decks.exportPlaceholder": "Exportar un mazo…",
+  "decks.emoji": "Emoji",
+  "decks.name": "Nombre del mazo",
+  "decks.addPrompt": "Añade una tarjeta",
+  "decks.addPromptLabel": "Añadir tarjeta",
+  "decks.noPrompts": "Aún no hay tarjetas",
+  "decks.remove": "Quitar {text}",
+  "decks.save": "Guardar mazo",
+  "decks.shareTitle": "Compartir {deck}",
+  "decks.qrCode": "Código QR de {name}",
+  "decks.tooBig":
+    "Este mazo es demasiado grande para un enlace, así que se ha guardado como archivo.",
+  "decks.shareUnsupported": "Este navegador no permite compartir.",
+  "decks.linkCopied": "¡Enlace copiado!",
+  "decks.close": "Cerrar",
+  "decks.shareLink": "Compartir enlace",
+  "decks.copyLink": "Copiar enlace",
+  "decks.sharedWithYou": "Alguien ha compartido un mazo contigo",
+  "decks.addShared": "Añadir a mis mazos",
+  "decks.noThanks": "No, gracias",
+
+  "controls.correct": "Acierto",
+  "controls.skip": "Pasar",
+  "controls.pause": "Pausa",
+  "controls.add": "Añadir una tecla o botón para {action}",
+  "controls.press": "Pulsa una tecla o botón…",
+  "controls.reset": "Restablecer",
+
+  "offline.title": "Categorías sin conexión",
+  "offline.help":
+    "Las categorías personalizadas que juegas se guardan para jugar sin conexión. Añade más aquí mientras tengas internet, antes de un viaje.",
+  "offline.add": "Guardar categoría para jugar sin conexión",
+  "offline.generating": "Generando…",
+  "offline.waiting": "Esperando conexión",
+
+  "presenter.title": "Pantalla de presentación",
+  "presenter.help":
+    "Muestra el tiempo, la puntuación y los resultados en una tele o un portátil mientras el móvil se queda con quien actúa. Las tarjetas nunca se muestran ahí.",
+  "presenter.room": "Código de sala",
+  "presenter.newRoom": "Nuevo código",
+  "presenter.relayUrl": "URL del relé (otros dispositivos)",
+  "presenter.relayHelp":
+    "Déjalo vacío para una ventana en este dispositivo. Para otro dispositivo, ejecuta `yarn relay` en esta red e introduce, por ejemplo, ws://192.168.1.10:8788/presenter.",
+  "presenter.invalidRelayUrl":
+    "Eso todavía no es una URL de relé, así que no se ha guardado.",
+  "presenter.open": "Abrir ventana de presentación",
+  "presenter.link": "Enlace de presentación",
+  "presenter.waiting": "Esperando a que empiece la partida…",
+  "presenter.relayError":
+    "No se puede conectar con el relé. Revisa la URL del relé en el enlace de presentación.",
+  "presenter.getReady": "¡Preparados!",
+  "presenter.correct": { one: "{count} acierto", other: "{count} aciertos" },
+
+  "room.title": "Salas",
+  "room.help":
+    "Jugad cada uno con su propio móvil. Este móvil lleva la partida y solo quien actúa ve la tarjeta.",
+  "room.serverUrl": "Servidor de salas",
+  "room.serverHelp":
+    "Ejecuta `yarn rooms` en esta red. Funciona sin conexión a internet.",
+  "room.host": "Crear una sala",
+  "room.create": "Crear sala",
+  "room.code": "Código de sala",
+  "room.codeLabel": "Sala {code}",
+  "room.joinLink": "Enlace para los jugadores",
+  "room.connecting": "Conectando…",
+  "room.reconnecting": "Conexión perdida, reconectando…",
+  "room.connectionError":
+    "No se puede conectar con el servidor de salas. Revisa su URL.",
+  "room.players": "Jugadores",
+  "room.away": "(ausente)",
+  "room.noPlayers": "Todavía no se ha unido nadie.",
+  "room.close": "Cerrar sala",
+  "room.join": "Unirse a una sala",
+  "room.yourName": "Tu nombre",
+  "room.notFound": "No existe la sala {code}.",
+  "room.youreActing": "¡Te toca actuar!",
+  "room.isActing": "Actúa {name}",
+  "room.waitingForHost": "Esperando a que empiece la partida…",
+
+  "update.available": "Hay una nueva versión de Charader.",
+  "update.later": "Más tarde",
+  "update.reload": "Actualizar",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, Message>> = { en, es };
+
+const PLURAL_RULES: Record<Locale, Intl.PluralRules> = {
+  en: new Intl.PluralRules("en"),
+  es: new Intl.PluralRules("es"),
+};
+
+// Picks the first of the browser's preferred languages that we support
+export const detectLocale = (): Locale => {
+  const languages = navigator.languages?.length
+    ? navigator.languages
+    : [navigator.language];
+
+  for (const language of languages) {
+    const base = language.toLowerCase().split("-")[0];
+    const locale = LOCALES.find(({ id }) => id === base);
+    if (locale) return locale.id;
+  }
+  return "en";
+};
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string => {
+  const message = MESSAGES[locale][key];
+  const text =
+    typeof message === "string"
+      ? message
+      : message[PLURAL_RULES[locale].select(Number(params.count))] ??
+        message.other;
+  return text.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+export const LocaleContext = createContext<Locale>("en");
+
+export const useTranslation = () => {
+  const locale = useContext(LocaleContext);
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) =>
+      translate(locale, key, params),
+    [locale]
+  );
+  return { locale, t };
+};
@@ -2,13 +2,30 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import { readPresenterParams } from "./presenter";
+import PresenterView from "./PresenterView";
+import RoomPlayerView from "./RoomPlayerView";
+import { readJoinParams } from "./rooms";
 import * as serviceWorkerRegistration from "./serviceWorkerRegistration";
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+const root = ReactDOM.createRoot(document.getElementById("root")!);
+const presenterParams = readPresenterParams();
+const joinParams = readJoinParams();
 
-// Register service worker
-serviceWorkerRegistration.register();
+const render = (applyUpdate?: () => Promise<void>) =>
+  root.render(
+    <React.StrictMode>
+      {presenterParams ? (
+        <PresenterView params={presenterParams} />
+      ) : joinParams ? (
+        <RoomPlayerView params={joinParams} />
+      ) : (
+        <App applyUpdate={applyUpdate} />
+      )}
+    </React.StrictMode>
+  );
+
+render();
+
+// Render again with a way to apply the update once a new version is waiting
+serviceWorkerRegistration.register({ onUpdate: render });
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isValidRelayUrl, usePresenterLink } from "./presenter";
+
+const stateUpdate = {
+  phase: "playing",
+  timeLeft: 30,
+  correct: 1,
+  skipped: 0,
+} as const;
+
+class FakeWebSocket {
+  static sockets: FakeWebSocket[] = [];
+  static OPEN = 1;
+  readyState = 0;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: URL) {
+    FakeWebSocket.sockets.push(this);
+  }
+
+  send() {}
+
+  close() {}
+}
+
+afterEach(() => {
+  FakeWebSocket.sockets = [];
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("isValidRelayUrl", () => {
+  it("accepts no relay, and WebSocket or HTTP URLs", () => {
+    expect(isValidRelayUrl("")).toBe(true);
+    expect(isValidRelayUrl("ws://192.168.1.10:8788/presenter")).toBe(true);
+    expect(isValidRelayUrl("https://example.com/presenter")).toBe(true);
+    expect(isValidRelayUrl("/presenter")).toBe(true);
+  });
+
+  it("rejects half-typed and non-WebSocket URLs", () => {
+    for (const relayUrl of [
+      "ws:",
+      "ws://",
+      "http://",
+      "mailto:me@example.com",
+    ]) {
+      expect(isValidRelayUrl(relayUrl), relayUrl).toBe(false);
+    }
+  });
+});
+
+describe("usePresenterLink", () => {
+  it("reports an invalid relay URL as an error instead of throwing", () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const { result } = renderHook(() =>
+      usePresenterLink({ room: "ABCD", relayUrl: "ws://" })
+    );
+
+    expect(result.current.status).toBe("error");
+    expect(FakeWebSocket.sockets).toEqual([]);
+    expect(() => result.current.send(stateUpdate)).not.toThrow();
+  });
+
+  it("reports a WebSocket that can't be created as an error", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal(
+      "WebSocket",
+      vi.fn(() => {
+        throw new SyntaxError("Bad URL");
+      })
+    );
+    const { result } = renderHook(() =>
+      usePresenterLink({ room: "ABCD", relayUrl: "ws://relay.local" })
+    );
+
+    expect(result.current.status).toBe("error");
+  });
+
+  it("connects to the relay with the room code", () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const { result } = renderHook(() =>
+      usePresenterLink({ room: "ABCD", relayUrl: "http://relay.local/p" })
+    );
+
+    expect(result.current.status).toBe("connecting");
+    const [socket] = FakeWebSocket.sockets;
+    expect(socket.url.href).toBe("ws://relay.local/p?room=ABCD");
+
+    act(() => socket.onopen?.());
+    expect(result.current.status).toBe("connected");
+  });
+
+  it("stays local without a relay", () => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const { result } = renderHook(() =>
+      usePresenterLink({ room: "ABCD", relayUrl: "" })
+    );
+
+    expect(result.current.status).toBe("local");
+    expect(FakeWebSocket.sockets).toEqual([]);
+  });
+});
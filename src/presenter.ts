@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH } from "./roomProtocol";
+
+// What the audience sees on the presenter screen. The prompt itself is only
+// included once the round is over.
+export interface PresenterState {
+  phase: "handoff" | "countdown" | "playing" | "paused" | "ended";
+  timeLeft: number;
+  correct: number;
+  skipped: number;
+  category?: string;
+  team?: string;
+  results?: { prompt: string; correct: boolean }[];
+  scoreboard?: { team: string; score: number }[];
+}
+
+export interface PresenterParams {
+  room: string;
+  // Empty when the presenter is another window on the same device
+  relayUrl: string;
+}
+
+// "local" when there's no relay, only other windows on this device
+export type PresenterLinkStatus =
+  | "local"
+  | "connecting"
+  | "connected"
+  | "error";
+
+interface PresenterLink {
+  send: (state: PresenterState) => void;
+  close: () => void;
+}
+
+const CHANNEL_PREFIX = "charader:presenter:";
+const RECONNECT_DELAY_MS = 2000;
+
+export const createRoomCode = () =>
+  Array.from(
+    { length: ROOM_CODE_LENGTH },
+    () =>
+      ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]
+  ).join("");
+
+export const getPresenterUrl = ({ room, relayUrl }: PresenterParams) => {
+  const url = new URL("/", window.location.origin);
+  url.searchParams.set("presenter", room);
+  if (relayUrl) url.searchParams.set("relay", relayUrl);
+  return url.href;
+};
+
+export const readPresenterParams = (): PresenterParams | null => {
+  const params = new URLSearchParams(window.location.search);
+  const room = params.get("presenter");
+  return room ? { room, relayUrl: params.get("relay") ?? "" } : null;
+};
+
+// Null for anything that can't be a relay, such as a half-typed "ws://"
+const toRelaySocketUrl = (relayUrl: string): URL | null => {
+  let url: URL;
+  try {
+    url = new URL(relayUrl, window.location.href);
+  } catch {
+    return null;
+  }
+  if (!/^(ws|http)s?:$/.test(url.protocol)) return null;
+  url.protocol = url.protocol.replace("http", "ws");
+  return url;
+};
+
+export const isValidRelayUrl = (relayUrl: string) =>
+  !relayUrl || toRelaySocketUrl(relayUrl) !== null;
+
+// Other windows on this device hear about changes over a BroadcastChannel;
+// other devices through the relay, which is reconnected whenever it drops
+const createPresenterLink = (
+  { room, relayUrl }: PresenterParams,
+  onState: (state: PresenterState) => void,
+  onStatus: (status: PresenterLinkStatus) => void
+): PresenterLink => {
+  const channel = new BroadcastChannel(CHANNEL_PREFIX + room);
+  channel.onmessage = (event: MessageEvent<PresenterState>) =>
+    onState(event.data);
+
+  let socket: WebSocket | null = null;
+  let lastMessage: string | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const connect = () => {
+    const url = toRelaySocketUrl(relayUrl);
+    if (!url) {
+      onStatus("error");
+      return;
+    }
+    url.searchParams.set("room", room);
+
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.error("Failed to connect to presenter relay:", error);
+      onStatus("error");
+      return;
+    }
+    onStatus("connecting");
+    socket.onopen = () => {
+      onStatus("connected");
+      if (lastMessage) socket?.send(lastMessage);
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        onState(JSON.parse(event.data) as PresenterState);
+      } catch (error) {
+        console.error("Failed to read presenter state:", error);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus("connecting");
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  if (relayUrl) {
+    connect();
+  } else {
+    onStatus("local");
+  }
+
+  return {
+    send: (state) => {
+      lastMessage = JSON.stringify(state);
+      channel.postMessage(state);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(lastMessage);
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      channel.close();
+      socket?.close();
+    },
+  };
+};
+
+// `send` publishes state to the presenter; it does nothing without a room
+export const usePresenterLink = (
+  params: PresenterParams | null,
+  onState?: (state: PresenterState) => void
+) => {
+  const link = useRef<PresenterLink | null>(null);
+  const [status, setStatus] = useState<PresenterLinkStatus>("local");
+  const onStateRef = useRef(onState);
+  const room = params?.room;
+  const relayUrl = params?.relayUrl ?? "";
+
+  useEffect(() => {
+    onStateRef.current = onState;
+  });
+
+  useEffect(() => {
+    if (!room) return;
+
+    const current = createPresenterLink(
+      { room, relayUrl },
+      (state) => onStateRef.current?.(state),
+      setStatus
+    );
+    link.current = current;
+    return () => {
+      current.close();
+      link.current = null;
+      setStatus("local");
+    };
+  }, [room, relayUrl]);
+
+  const send = useCallback(
+    (state: PresenterState) => link.current?.send(state),
+    []
+  );
+
+  return { send, status };
+};
@@ -0,0 +1,211 @@
+import { containsBlockedTerm } from "./blocklist";
+import { getOptionDifficulty } from "./categories";
+import { Locale } from "./i18n";
+import { PromptProvider, PromptRequest } from "./promptProviders";
+import { getSeenPrompts } from "./seenPrompts";
+import { PromptOption } from "./types";
+
+// AI-generated prompts, saved per category text so custom categories can be
+// played again without a connection
+export interface CachedCategory {
+  category: string;
+  locale: Locale;
+  prompts: PromptOption[];
+  updatedAt: number;
+}
+
+// Custom categories waiting to be generated the next time we're online
+export interface PregenerateEntry {
+  category: string;
+  locale: Locale;
+}
+
+const CACHE_KEY = "charader:promptCache";
+const QUEUE_KEY = "charader:pregenerateQueue";
+
+// Keeps localStorage from filling up with a single favorite category
+const MAX_CACHED_PROMPTS = 200;
+
+const PREGENERATE_COUNT = 60;
+
+const normalize = (category: string) => category.trim().toLowerCase();
+
+const matches = (
+  entry: { category: string; locale: Locale },
+  category: string,
+  locale: Locale
+) =>
+  entry.locale === locale && normalize(entry.category) === normalize(category);
+
+export const getCachedCategories = (): CachedCategory[] => {
+  try {
+    const stored = localStorage.getItem(CACHE_KEY);
+    return stored ? (JSON.parse(stored) as CachedCategory[]) : [];
+  } catch (error) {
+    console.error("Failed to read prompt cache:", error);
+    return [];
+  }
+};
+
+const saveCachedCategories = (categories: CachedCategory[]) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(categories));
+  } catch (error) {
+    console.error("Failed to save prompt cache:", error);
+  }
+};
+
+export const getCachedPromptCount = (category: string, locale: Locale) =>
+  getCachedCategories().find((entry) => matches(entry, category, locale))
+    ?.prompts.length ?? 0;
+
+const cachePrompts = (
+  category: string,
+  locale: Locale,
+  prompts: PromptOption[]
+) => {
+  if (prompts.length === 0) return;
+
+  const categories = getCachedCategories();
+  const existing = categories.find((entry) => matches(entry, category, locale));
+  const texts = new Set(prompts.map((prompt) => prompt.text.toLowerCase()));
+  const merged = [
+    ...(existing?.prompts ?? []).filter(
+      (prompt) => !texts.has(prompt.text.toLowerCase())
+    ),
+    ...prompts,
+  ].slice(-MAX_CACHED_PROMPTS);
+
+  saveCachedCategories([
+    ...categories.filter((entry) => entry !== existing),
+    {
+      category: category.trim(),
+      locale,
+      prompts: merged,
+      updatedAt: Date.now(),
+    },
+  ]);
+};
+
+export const removeCachedCategory = (category: string, locale: Locale) => {
+  saveCachedCategories(
+    getCachedCategories().filter((entry) => !matches(entry, category, locale))
+  );
+};
+
+const getCachedPrompts = ({
+  category,
+  count,
+  exclusions,
+  difficulty,
+  familyMode,
+  locale = "en",
+}: PromptRequest): PromptOption[] => {
+  const seen = getSeenPrompts();
+  const prompts = (
+    getCachedCategories().find((entry) =>
+      matches(entry, category.prompt, locale)
+    )?.prompts ?? []
+  ).filter(
+    (prompt) =>
+      !exclusions.includes(prompt.text) &&
+      (!difficulty || getOptionDifficulty(prompt) === difficulty) &&
+      // Prompts may have been saved before family mode was switched on
+      (!familyMode || !containsBlockedTerm(prompt.text, locale))
+  );
+
+  // Same as the built-in decks: unseen prompts first
+  return [
+    ...prompts.filter((prompt) => !seen.has(prompt.text)),
+    ...prompts.filter((prompt) => seen.has(prompt.text)),
+  ].slice(0, count);
+};
+
+// Saves everything the provider generates, and falls back to those saved
+// prompts when offline or when the provider fails
+export const withPromptCache = (provider: PromptProvider): PromptProvider => {
+  if (!provider.supportsCustomCategories) return provider;
+
+  return {
+    ...provider,
+    generatePrompts: async (request) => {
+      if (provider.requiresInternet && !navigator.onLine) {
+        return getCachedPrompts(request);
+      }
+
+      try {
+        const prompts = await provider.generatePrompts(request);
+        cachePrompts(request.category.prompt, request.locale ?? "en", prompts);
+        return prompts;
+      } catch (error) {
+        const cached = getCachedPrompts(request);
+        if (cached.length === 0) throw error;
+        console.error("Failed to generate prompts, using saved ones:", error);
+        return cached;
+      }
+    },
+  };
+};
+
+export const getPregenerateQueue = (): PregenerateEntry[] => {
+  try {
+    const stored = localStorage.getItem(QUEUE_KEY);
+    return stored ? (JSON.parse(stored) as PregenerateEntry[]) : [];
+  } catch (error) {
+    console.error("Failed to read pre-generate queue:", error);
+    return [];
+  }
+};
+
+const savePregenerateQueue = (queue: PregenerateEntry[]) => {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error("Failed to save pre-generate queue:", error);
+  }
+};
+
+export const addToPregenerateQueue = (category: string, locale: Locale) => {
+  const queue = getPregenerateQueue();
+  if (queue.some((entry) => matches(entry, category, locale))) return;
+  savePregenerateQueue([...queue, { category: category.trim(), locale }]);
+};
+
+export const removeFromPregenerateQueue = (
+  category: string,
+  locale: Locale
+) => {
+  savePregenerateQueue(
+    getPregenerateQueue().filter((entry) => !matches(entry, category, locale))
+  );
+};
+
+let processing: Promise<void> | null = null;
+
+// Works through the queue one category at a time, stopping at the first
+// failure so the rest is retried later. The provider should come from
+// withPromptCache, which saves what it generates.
+export const processPregenerateQueue = (
+  provider: PromptProvider
+): Promise<void> => {
+  if (!provider.supportsCustomCategories || !navigator.onLine) {
+    return Promise.resolve();
+  }
+
+  processing ??= (async () => {
+    try {
+      for (const { category, locale } of getPregenerateQueue()) {
+        await provider.generatePrompts({
+          category: { id: "custom", name: category, prompt: category },
+          count: PREGENERATE_COUNT,
+          exclusions: [],
+          locale,
+        });
+        removeFromPregenerateQueue(category, locale);
+      }
+    } finally {
+      processing = null;
+    }
+  })();
+  return processing;
+};
@@ -0,0 +1,251 @@
+// Shared by the browser providers and the prompt server, so keep this free of
+// browser- and Vite-specific code
+import { BlocklistLocale, containsBlockedTerm } from "./blocklist";
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+export interface GeneratedPrompt {
+  text: string;
+  difficulty: Difficulty;
+  hint: string;
+}
+
+export interface GenerationRequest {
+  category: string;
+  count: number;
+  exclusions: string[];
+  // Leave out to get a mix of difficulties
+  difficulty?: Difficulty;
+  familyMode?: boolean;
+  // The language to answer in, written out in English, e.g. "Spanish"
+  language?: string;
+  // Picks the blocklist for family mode
+  locale?: BlocklistLocale;
+}
+
+// Sends a prompt to the model and resolves to the raw message content
+export type CompletionRequester = (
+  prompt: string
+) => Promise<string | null | undefined>;
+
+export const MAX_PROMPT_LENGTH = 60;
+// Only the most recent exclusions are sent on, so long games don't outgrow
+// the request; the game drops repeats of older prompts itself
+export const MAX_EXCLUSIONS = 500;
+const MAX_ATTEMPTS = 3;
+// Edit-distance similarity above which two prompts count as the same one
+const NEAR_DUPLICATE_SIMILARITY = 0.85;
+
+const BASE_PROMPT = `Generate exactly {count} {category} for a game of charades.
+For each item give its text, a difficulty (easy, medium or hard) and a short hint that doesn't give the answer away.
+Keep items simple, and don't only include the most popular items (otherwise, it's the same every time).
+Items should be easy to describe or act out, and at most ${MAX_PROMPT_LENGTH} characters long.{difficulty}{familyMode}{language}
+{exclusions}`;
+
+const FAMILY_MODE_INSTRUCTION =
+  "Everything must be suitable for young children: nothing violent, scary, sexual, crude, or about alcohol or drugs.";
+
+const DIFFICULTY_INSTRUCTIONS: Record<Difficulty, string> = {
+  easy: "Only include easy items: ones everyone knows, including kids, and that are quick to act out.",
+  medium:
+    "Only include medium items: ones most adults know, but that take a bit of thought to act out.",
+  hard: "Only include hard items: lesser-known or abstract ones that challenge experienced players.",
+};
+
+export const PROMPT_RESPONSE_FORMAT = {
+  type: "json_schema",
+  json_schema: {
+    name: "charades_prompts",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        prompts: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              text: { type: "string" },
+              difficulty: { type: "string", enum: ["easy", "medium", "hard"] },
+              hint: { type: "string" },
+            },
+            required: ["text", "difficulty", "hint"],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["prompts"],
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+export const buildPrompt = ({
+  category,
+  count,
+  exclusions,
+  difficulty,
+  familyMode,
+  language,
+}: GenerationRequest): string => {
+  const exclusionText =
+    exclusions.length > 0
+      ? `\nDo not include any of these items:\n${exclusions.join("\n")}`
+      : "";
+
+  return BASE_PROMPT.replace("{count}", count.toString())
+    .replace("{category}", category)
+    .replace(
+      "{difficulty}",
+      difficulty ? `\n${DIFFICULTY_INSTRUCTIONS[difficulty]}` : ""
+    )
+    .replace("{familyMode}", familyMode ? `\n${FAMILY_MODE_INSTRUCTION}` : "")
+    .replace(
+      "{language}",
+      language ? `\nWrite every item and hint in ${language}.` : ""
+    )
+    .replace("{exclusions}", exclusionText);
+};
+
+// Strips numbering, bullets and quotes that models like to add
+const cleanText = (text: string) =>
+  text
+    .trim()
+    .replace(/^(\d+[.)]|[-*•])\s*/, "")
+    .replace(/^["'“‘](.*)["'”’]$/, "$1")
+    .trim();
+
+// Fallback for servers that ignore the response schema and answer with lines
+export const parsePromptList = (content: string | null | undefined) =>
+  content
+    ?.split("\n")
+    .map(cleanText)
+    // Drop introductions such as "Here are 10 movies:"
+    .filter((line) => line && !line.endsWith(":")) || [];
+
+const isDifficulty = (value: unknown): value is Difficulty =>
+  DIFFICULTIES.includes(value as Difficulty);
+
+export const parseGeneratedPrompts = (
+  content: string | null | undefined
+): GeneratedPrompt[] => {
+  try {
+    const { prompts } = JSON.parse(content ?? "") as { prompts?: unknown };
+    if (!Array.isArray(prompts)) return [];
+
+    return prompts.flatMap((item) =>
+      typeof item?.text === "string"
+        ? [
+            {
+              text: cleanText(item.text),
+              difficulty: isDifficulty(item.difficulty)
+                ? item.difficulty
+                : "medium",
+              hint: typeof item.hint === "string" ? item.hint.trim() : "",
+            },
+          ]
+        : []
+    );
+  } catch {
+    return parsePromptList(content).map((text) => ({
+      text,
+      difficulty: "medium",
+      hint: "",
+    }));
+  }
+};
+
+// Lowercase, without punctuation or a leading article, so "The Lion King!"
+// and "lion king" compare equal
+export const normalizePrompt = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/^(the|a|an)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const isNearDuplicate = (a: string, b: string): boolean => {
+  const left = normalizePrompt(a);
+  const right = normalizePrompt(b);
+  if (left === right) return true;
+
+  const longest = Math.max(left.length, right.length);
+  return 1 - editDistance(left, right) / longest >= NEAR_DUPLICATE_SIMILARITY;
+};
+
+// Drops empty, over-long and repeated prompts, including ones that are only
+// a near-duplicate of something already played or excluded. Family mode also
+// drops anything on the locale's blocklist.
+export const validatePrompts = (
+  prompts: GeneratedPrompt[],
+  exclusions: string[],
+  familyMode = false,
+  locale?: BlocklistLocale
+): GeneratedPrompt[] => {
+  const accepted: GeneratedPrompt[] = [];
+
+  for (const prompt of prompts) {
+    if (!prompt.text || prompt.text.length > MAX_PROMPT_LENGTH) continue;
+    if (familyMode && containsBlockedTerm(prompt.text, locale)) continue;
+
+    const seen = [...exclusions, ...accepted.map((p) => p.text)];
+    if (seen.some((text) => isNearDuplicate(text, prompt.text))) continue;
+
+    accepted.push(prompt);
+  }
+
+  return accepted;
+};
+
+// Asks again for whatever is still missing when too few prompts survive
+// validation
+export const generateValidPrompts = async (
+  requestCompletion: CompletionRequester,
+  request: GenerationRequest
+): Promise<GeneratedPrompt[]> => {
+  const accepted: GeneratedPrompt[] = [];
+
+  for (
+    let attempt = 0;
+    attempt < MAX_ATTEMPTS && accepted.length < request.count;
+    attempt++
+  ) {
+    const seen = [...request.exclusions, ...accepted.map((p) => p.text)];
+    const content = await requestCompletion(
+      buildPrompt({
+        ...request,
+        count: request.count - accepted.length,
+        exclusions: seen,
+      })
+    );
+    accepted.push(
+      ...validatePrompts(
+        parseGeneratedPrompts(content),
+        seen,
+        request.familyMode,
+        request.locale
+      )
+    );
+  }
+
+  return accepted.slice(0, request.count);
+};
@@ -0,0 +1,210 @@
+import OpenAI, { ClientOptions } from "openai";
+import { containsBlockedTerm } from "./blocklist";
+import { getRandomOptionsForCategory } from "./categories";
+import { LANGUAGE_NAMES, Locale } from "./i18n";
+import { withPromptCache } from "./promptCache";
+import {
+  Difficulty,
+  GeneratedPrompt,
+  MAX_EXCLUSIONS,
+  PROMPT_RESPONSE_FORMAT,
+  generateValidPrompts,
+} from "./promptFormat";
+import { ProviderId, Settings } from "./settings";
+import { Category, PromptOption } from "./types";
+
+const PROMPT_API_URL = import.meta.env.VITE_PROMPT_API_URL ?? "/api/prompts";
+
+export interface PromptRequest {
+  category: Category;
+  count: number;
+  exclusions: string[];
+  temperature?: number;
+  difficulty?: Difficulty;
+  familyMode?: boolean;
+  locale?: Locale;
+}
+
+export interface PromptProvider {
+  id: ProviderId;
+  // Whether the provider can come up with prompts for free-text categories
+  supportsCustomCategories: boolean;
+  requiresInternet: boolean;
+  generatePrompts: (request: PromptRequest) => Promise<PromptOption[]>;
+}
+
+export const staticDeckProvider: PromptProvider = {
+  id: "static",
+  supportsCustomCategories: false,
+  requiresInternet: false,
+  generatePrompts: async ({
+    category,
+    count,
+    exclusions,
+    difficulty,
+    familyMode,
+    locale,
+  }) =>
+    getRandomOptionsForCategory(category.id, count, {
+      locale,
+      difficulty,
+      familyMode,
+      exclusions,
+    }),
+};
+
+const toPromptOption = ({
+  text,
+  difficulty,
+  hint,
+}: GeneratedPrompt): PromptOption => ({
+  text,
+  difficulty,
+  hint: hint || undefined,
+});
+
+// Returns numbered placeholders so games and tests are reproducible
+export const mockProvider: PromptProvider = {
+  id: "mock",
+  supportsCustomCategories: true,
+  requiresInternet: false,
+  generatePrompts: async ({ category, count, exclusions, difficulty }) => {
+    const prompts: PromptOption[] = [];
+    for (let i = 1; prompts.length < count; i++) {
+      const text = `${category.name} ${i}`;
+      if (!exclusions.includes(text)) {
+        prompts.push({ text, difficulty });
+      }
+    }
+    return prompts;
+  },
+};
+
+// OpenAI-compatible servers are called straight from the browser, since they
+// usually run on the player's own machine or LAN
+const createCompatibleProvider = (
+  clientOptions: ClientOptions,
+  model: string
+): PromptProvider => {
+  // Created on first use, since the client throws when it has no API key
+  let client: OpenAI | null = null;
+
+  return {
+    id: "compatible",
+    supportsCustomCategories: true,
+    requiresInternet: false,
+    generatePrompts: async ({
+      category,
+      count,
+      exclusions,
+      temperature,
+      difficulty,
+      familyMode,
+      locale,
+    }) => {
+      const openai = (client ??= new OpenAI({
+        ...clientOptions,
+        dangerouslyAllowBrowser: true,
+      }));
+
+      const prompts = await generateValidPrompts(
+        async (content) => {
+          const completion = await openai.chat.completions.create({
+            model,
+            messages: [{ role: "user", content }],
+            response_format: PROMPT_RESPONSE_FORMAT,
+            temperature: temperature ?? 1.5,
+          });
+          return completion.choices[0].message.content;
+        },
+        {
+          category: category.prompt,
+          count,
+          // Keeps long games from outgrowing the model's context
+          exclusions: exclusions.slice(-MAX_EXCLUSIONS),
+          difficulty,
+          familyMode,
+          language: locale && LANGUAGE_NAMES[locale],
+          locale,
+        }
+      );
+
+      return prompts.map(toPromptOption);
+    },
+  };
+};
+
+// OpenAI is only reached through the prompt server, which holds the API key
+const proxyProvider: PromptProvider = {
+  id: "openai",
+  supportsCustomCategories: true,
+  requiresInternet: true,
+  generatePrompts: async ({
+    category,
+    count,
+    exclusions,
+    temperature,
+    difficulty,
+    familyMode,
+    locale,
+  }) => {
+    const response = await fetch(PROMPT_API_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        category: category.prompt,
+        count,
+        // Long rounds would otherwise outgrow the server's request limit
+        exclusions: exclusions.slice(-MAX_EXCLUSIONS),
+        temperature,
+        difficulty,
+        familyMode,
+        language: locale && LANGUAGE_NAMES[locale],
+        locale,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Prompt server responded with ${response.status}`);
+    }
+
+    const { prompts } = (await response.json()) as {
+      prompts: GeneratedPrompt[];
+    };
+    // Checked here as well, since the prompt server may be someone else's
+    return prompts
+      .filter(
+        (prompt) => !familyMode || !containsBlockedTerm(prompt.text, locale)
+      )
+      .map(toPromptOption);
+  },
+};
+
+export const createPromptProvider = (settings: Settings): PromptProvider => {
+  switch (settings.provider) {
+    case "static":
+      return staticDeckProvider;
+    case "mock":
+      return mockProvider;
+    case "compatible":
+      return withPromptCache(
+        createCompatibleProvider(
+          {
+            baseURL: settings.compatibleBaseUrl,
+            // Local servers usually ignore the key, but the client requires one
+            apiKey: settings.compatibleApiKey || "not-needed",
+          },
+          settings.compatibleModel
+        )
+      );
+    case "openai":
+      return withPromptCache(proxyProvider);
+  }
+};
+
+// Built-in categories start from their bundled deck; custom categories need a
+// provider that can generate prompts
+export const getInitialProvider = (
+  category: Category,
+  provider: PromptProvider
+): PromptProvider => (category.id === "custom" ? provider : staticDeckProvider);
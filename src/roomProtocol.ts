@@ -0,0 +1,130 @@
+// Messages between the room server and the phones in a room. Shared with the
+// server, so this must not touch the DOM.
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  // False while a phone is asleep or has lost its connection
+  connected: boolean;
+}
+
+export interface RoomSnapshot {
+  code: string;
+  hostConnected: boolean;
+  // In the order they joined, which is also the acting order
+  players: RoomPlayer[];
+  actorId: string | null;
+}
+
+export type RoomAction = "correct" | "skip";
+
+// Sent from handleResult, to every player in the room
+export interface RoomScore {
+  correct: boolean;
+  correctCount: number;
+  skippedCount: number;
+}
+
+export type RoomError = "roomNotFound" | "invalidMessage" | "notAllowed";
+
+export type ClientMessage =
+  // Creates a room, or takes an existing one back with its token
+  | { type: "host"; room?: string; token?: string }
+  | { type: "join"; room: string; name: string; token?: string }
+  // Host only
+  | { type: "startTurn" }
+  | { type: "prompt"; prompt: string | null }
+  | ({ type: "score" } & RoomScore)
+  | { type: "endTurn" }
+  // Current actor only
+  | { type: "action"; action: RoomAction };
+
+export type ServerMessage =
+  | { type: "welcome"; room: string; token: string; playerId?: string }
+  | { type: "room"; room: RoomSnapshot }
+  // Only ever sent to the actor
+  | { type: "prompt"; prompt: string | null }
+  | ({ type: "score" } & RoomScore)
+  | { type: "action"; action: RoomAction; playerId: string }
+  | { type: "error"; error: RoomError };
+
+// No 0/O or 1/I, since the code is typed in by hand
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const ROOM_CODE_LENGTH = 4;
+export const MAX_PLAYER_NAME_LENGTH = 24;
+const MAX_PROMPT_LENGTH = 200;
+
+export const normalizeRoomCode = (code: string) =>
+  code
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .slice(0, ROOM_CODE_LENGTH);
+
+const isString = (value: unknown, maxLength: number): value is string =>
+  typeof value === "string" && value.length <= maxLength;
+
+const isOptionalString = (value: unknown, maxLength: number) =>
+  value === undefined || isString(value, maxLength);
+
+const isCount = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+// Anything can arrive over the socket, so check the shape before trusting it
+export const parseClientMessage = (data: string): ClientMessage | null => {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== "object") return null;
+
+  switch (message.type) {
+    case "host":
+      return isOptionalString(message.room, ROOM_CODE_LENGTH) &&
+        isOptionalString(message.token, 64)
+        ? {
+            type: "host",
+            room: message.room as string | undefined,
+            token: message.token as string | undefined,
+          }
+        : null;
+    case "join":
+      return isString(message.room, ROOM_CODE_LENGTH) &&
+        isString(message.name, MAX_PLAYER_NAME_LENGTH) &&
+        message.name.trim() !== "" &&
+        isOptionalString(message.token, 64)
+        ? {
+            type: "join",
+            room: message.room,
+            name: message.name.trim(),
+            token: message.token as string | undefined,
+          }
+        : null;
+    case "startTurn":
+    case "endTurn":
+      return { type: message.type };
+    case "prompt":
+      return message.prompt === null ||
+        isString(message.prompt, MAX_PROMPT_LENGTH)
+        ? { type: "prompt", prompt: message.prompt }
+        : null;
+    case "score":
+      return typeof message.correct === "boolean" &&
+        isCount(message.correctCount) &&
+        isCount(message.skippedCount)
+        ? {
+            type: "score",
+            correct: message.correct,
+            correctCount: message.correctCount as number,
+            skippedCount: message.skippedCount as number,
+          }
+        : null;
+    case "action":
+      return message.action === "correct" || message.action === "skip"
+        ? { type: "action", action: message.action }
+        : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { readJoinParams, useHostedRoom, useJoinedRoom } from "./rooms";
+
+class FakeWebSocket {
+  static sockets: FakeWebSocket[] = [];
+  static OPEN = 1;
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor() {
+    FakeWebSocket.sockets.push(this);
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {}
+}
+
+afterEach(() => {
+  window.history.replaceState(null, "", "/");
+  localStorage.clear();
+  FakeWebSocket.sockets = [];
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("useJoinedRoom", () => {
+  it("reports a server URL it can't connect to instead of throwing", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    window.history.replaceState(null, "", "/?join=abcd&server=ws://");
+    const params = readJoinParams();
+
+    expect(params).toEqual({ room: "ABCD", serverUrl: "ws://" });
+    const { result } = renderHook(() => useJoinedRoom(params!, "Sam"));
+
+    expect(result.current.status).toBe("error");
+    expect(() => result.current.sendAction("correct")).not.toThrow();
+  });
+
+  it("doesn't connect before there's a name", () => {
+    const { result } = renderHook(() =>
+      useJoinedRoom({ room: "ABCD", serverUrl: "ws://" }, "")
+    );
+
+    expect(result.current.status).toBe("connecting");
+  });
+});
+
+describe("connectToRoom", () => {
+  it("drops actions sent while disconnected instead of replaying them", () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    const { result } = renderHook(() =>
+      useJoinedRoom({ room: "ABCD", serverUrl: "ws://rooms.local" }, "Sam")
+    );
+    act(() => FakeWebSocket.sockets[0].open());
+    act(() => FakeWebSocket.sockets[0].drop());
+    expect(result.current.status).toBe("reconnecting");
+
+    result.current.sendAction("correct");
+    act(() => vi.advanceTimersByTime(1000));
+    const [, socket] = FakeWebSocket.sockets;
+    act(() => socket.open());
+
+    expect(socket.sent).toEqual([
+      { type: "join", room: "ABCD", name: "Sam", token: undefined },
+    ]);
+  });
+
+  it("delivers the host's messages once it has reconnected", () => {
+    vi.useFakeTimers();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    localStorage.setItem(
+      "charader:hostedRoom",
+      JSON.stringify({ room: "ABCD", token: "secret" })
+    );
+    const { result } = renderHook(() => useHostedRoom("ws://rooms.local"));
+
+    result.current.send({ type: "startTurn" });
+    act(() => FakeWebSocket.sockets[0].open());
+
+    expect(FakeWebSocket.sockets[0].sent).toEqual([
+      { type: "host", room: "ABCD", token: "secret" },
+      { type: "startTurn" },
+    ]);
+  });
+});
@@ -0,0 +1,368 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ClientMessage,
+  RoomAction,
+  RoomError,
+  RoomScore,
+  RoomSnapshot,
+  ServerMessage,
+  normalizeRoomCode,
+} from "./roomProtocol";
+
+// "error" means the server URL can't be connected to at all
+export type RoomStatus = "connecting" | "connected" | "reconnecting" | "error";
+
+export interface JoinParams {
+  room: string;
+  serverUrl: string;
+}
+
+// Saved so a reload, or a phone the browser unloaded while it slept, gets
+// the same room and the same seat back
+interface RoomSession {
+  room: string;
+  token: string;
+}
+
+export const DEFAULT_ROOM_SERVER_URL = "/room";
+
+const HOST_SESSION_KEY = "charader:hostedRoom";
+const PLAYER_SESSION_KEY = "charader:joinedRoom";
+const PLAYER_NAME_KEY = "charader:playerName";
+
+const MAX_RECONNECT_DELAY_MS = 10_000;
+const MAX_QUEUED_MESSAGES = 50;
+
+const loadSession = (key: string): RoomSession | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as RoomSession) : null;
+  } catch (error) {
+    console.error("Failed to load room session:", error);
+    return null;
+  }
+};
+
+const saveSession = (key: string, session: RoomSession | null) => {
+  try {
+    if (session) {
+      localStorage.setItem(key, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error("Failed to save room session:", error);
+  }
+};
+
+export const loadPlayerName = (): string => {
+  try {
+    return localStorage.getItem(PLAYER_NAME_KEY) ?? "";
+  } catch (error) {
+    console.error("Failed to load player name:", error);
+    return "";
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+  } catch (error) {
+    console.error("Failed to save player name:", error);
+  }
+};
+
+export const getJoinUrl = ({ room, serverUrl }: JoinParams) => {
+  const url = new URL("/", window.location.origin);
+  url.searchParams.set("join", room);
+  if (serverUrl !== DEFAULT_ROOM_SERVER_URL) {
+    url.searchParams.set("server", serverUrl);
+  }
+  return url.href;
+};
+
+export const readJoinParams = (): JoinParams | null => {
+  const params = new URLSearchParams(window.location.search);
+  const room = normalizeRoomCode(params.get("join") ?? "");
+  return room
+    ? {
+        room,
+        serverUrl: params.get("server") || DEFAULT_ROOM_SERVER_URL,
+      }
+    : null;
+};
+
+interface RoomConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+// Reconnects with a growing delay whenever the socket drops, and straight
+// away when the phone wakes up or comes back online. Every new socket says
+// hello first, and messages sent in between are delivered after it, except
+// for actions: a tap from before the drop would score whatever prompt is
+// showing by the time it arrives.
+const connectToRoom = (
+  serverUrl: string,
+  getHello: () => ClientMessage,
+  onMessage: (message: ServerMessage) => void,
+  onStatus: (status: RoomStatus) => void
+): RoomConnection => {
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  const queue: string[] = [];
+
+  const connect = () => {
+    clearTimeout(reconnectTimer);
+    onStatus(attempts === 0 ? "connecting" : "reconnecting");
+
+    let current: WebSocket;
+    try {
+      const url = new URL(serverUrl, window.location.href);
+      url.protocol = url.protocol.replace("http", "ws");
+      current = new WebSocket(url);
+    } catch (error) {
+      // Retrying won't fix a bad URL, e.g. from a tampered ?server= link
+      console.error("Failed to connect to room server:", error);
+      onStatus("error");
+      return;
+    }
+    socket = current;
+
+    current.onopen = () => {
+      attempts = 0;
+      current.send(JSON.stringify(getHello()));
+      for (const message of queue.splice(0)) current.send(message);
+      onStatus("connected");
+    };
+    current.onmessage = (event: MessageEvent<string>) => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error("Failed to read room message:", error);
+        return;
+      }
+      onMessage(message);
+    };
+    current.onclose = () => {
+      if (socket !== current || closed) return;
+      socket = null;
+      attempts++;
+      onStatus("reconnecting");
+      reconnectTimer = setTimeout(
+        connect,
+        Math.min(1000 * 2 ** (attempts - 1), MAX_RECONNECT_DELAY_MS)
+      );
+    };
+  };
+
+  const reconnectNow = () => {
+    if (!closed && !socket && !document.hidden) connect();
+  };
+
+  document.addEventListener("visibilitychange", reconnectNow);
+  window.addEventListener("online", reconnectNow);
+  connect();
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else if (message.type !== "action") {
+        queue.push(data);
+        queue.splice(0, queue.length - MAX_QUEUED_MESSAGES);
+      }
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      document.removeEventListener("visibilitychange", reconnectNow);
+      window.removeEventListener("online", reconnectNow);
+      socket?.close();
+    },
+  };
+};
+
+export interface HostedRoom {
+  room: RoomSnapshot | null;
+  status: RoomStatus;
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  send: (message: ClientMessage) => void;
+  // Returns a function that stops listening
+  onAction: (listener: (action: RoomAction) => void) => () => void;
+}
+
+// The host's side of a room. It stays open across screens and reloads until
+// it is closed.
+export const useHostedRoom = (serverUrl: string): HostedRoom => {
+  const [isOpen, setIsOpen] = useState(
+    () => loadSession(HOST_SESSION_KEY) !== null
+  );
+  const [room, setRoom] = useState<RoomSnapshot | null>(null);
+  const [status, setStatus] = useState<RoomStatus>("connecting");
+  const connection = useRef<RoomConnection | null>(null);
+  const listeners = useRef(new Set<(action: RoomAction) => void>());
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const current = connectToRoom(
+      serverUrl,
+      () => {
+        const session = loadSession(HOST_SESSION_KEY);
+        return { type: "host", room: session?.room, token: session?.token };
+      },
+      (message) => {
+        if (message.type === "welcome") {
+          saveSession(HOST_SESSION_KEY, {
+            room: message.room,
+            token: message.token,
+          });
+        } else if (message.type === "room") {
+          setRoom(message.room);
+        } else if (message.type === "action") {
+          listeners.current.forEach((listener) => listener(message.action));
+        } else if (message.type === "error") {
+          console.error("Room server error:", message.error);
+        }
+      },
+      setStatus
+    );
+    connection.current = current;
+    return () => {
+      current.close();
+      connection.current = null;
+    };
+  }, [isOpen, serverUrl]);
+
+  const open = useCallback(() => setIsOpen(true), []);
+
+  const close = useCallback(() => {
+    saveSession(HOST_SESSION_KEY, null);
+    setIsOpen(false);
+    setRoom(null);
+  }, []);
+
+  const send = useCallback(
+    (message: ClientMessage) => connection.current?.send(message),
+    []
+  );
+
+  const onAction = useCallback((listener: (action: RoomAction) => void) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  return { room, status, isOpen, open, close, send, onAction };
+};
+
+// Calls onAction whenever the actor scores from their own phone
+export const useRoomActions = (
+  room: HostedRoom | undefined,
+  onAction: (action: RoomAction) => void
+) => {
+  const onActionRef = useRef(onAction);
+  const subscribe = room?.onAction;
+
+  useEffect(() => {
+    onActionRef.current = onAction;
+  });
+
+  useEffect(
+    () => subscribe?.((action) => onActionRef.current(action)),
+    [subscribe]
+  );
+};
+
+export interface JoinedRoom {
+  room: RoomSnapshot | null;
+  playerId: string | null;
+  // Only set while this phone is acting
+  prompt: string | null;
+  score: RoomScore | null;
+  status: RoomStatus;
+  error: RoomError | null;
+  sendAction: (action: RoomAction) => void;
+}
+
+// A player's side of a room; joins as soon as there is a name
+export const useJoinedRoom = (
+  { room: code, serverUrl }: JoinParams,
+  name: string
+): JoinedRoom => {
+  const [room, setRoom] = useState<RoomSnapshot | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [score, setScore] = useState<RoomScore | null>(null);
+  const [status, setStatus] = useState<RoomStatus>("connecting");
+  const [error, setError] = useState<RoomError | null>(null);
+  const connection = useRef<RoomConnection | null>(null);
+  const hasName = name !== "";
+  const nameRef = useRef(name);
+
+  useEffect(() => {
+    nameRef.current = name;
+  });
+
+  useEffect(() => {
+    if (!hasName) return;
+
+    const current = connectToRoom(
+      serverUrl,
+      () => {
+        const session = loadSession(PLAYER_SESSION_KEY);
+        return {
+          type: "join",
+          room: code,
+          name: nameRef.current,
+          token: session?.room === code ? session.token : undefined,
+        };
+      },
+      (message) => {
+        if (message.type === "welcome") {
+          saveSession(PLAYER_SESSION_KEY, {
+            room: message.room,
+            token: message.token,
+          });
+          setPlayerId(message.playerId ?? null);
+          setError(null);
+        } else if (message.type === "room") {
+          setRoom(message.room);
+          if (message.room.actorId === null) setPrompt(null);
+        } else if (message.type === "prompt") {
+          setPrompt(message.prompt);
+        } else if (message.type === "score") {
+          setScore({
+            correct: message.correct,
+            correctCount: message.correctCount,
+            skippedCount: message.skippedCount,
+          });
+        } else if (message.type === "error") {
+          setError(message.error);
+        }
+      },
+      setStatus
+    );
+    connection.current = current;
+    return () => {
+      current.close();
+      connection.current = null;
+    };
+  }, [code, hasName, serverUrl]);
+
+  const sendAction = useCallback(
+    (action: RoomAction) =>
+      connection.current?.send({ type: "action", action }),
+    []
+  );
+
+  return { room, playerId, prompt, score, status, error, sendAction };
+};
@@ -0,0 +1,415 @@
+import { describe, expect, it } from "vitest";
+import {
+  RoundAction,
+  RoundPhase,
+  RoundPrompt,
+  RoundState,
+  canAnswer,
+  createRoundState,
+  getCurrentPrompt,
+  getFetchRetryDelayMs,
+  getSkipsLeft,
+  isTimerRunning,
+  needsMorePrompts,
+  roundReducer,
+} from "./round";
+
+const prompts = (...texts: string[]): RoundPrompt[] =>
+  texts.map((text) => ({ text, category: "🎬 Movies", difficulty: "easy" }));
+
+const reduce = (state: RoundState, ...actions: RoundAction[]) =>
+  actions.reduce(roundReducer, state);
+
+// A round in each phase, with prompts left to show unless it's loading
+const inPhase = (phase: RoundPhase): RoundState => {
+  const start = createRoundState(prompts("Titanic", "Jaws"), null);
+  switch (phase) {
+    case "countdown":
+      return start;
+    case "active":
+      return reduce(start, { type: "countdownDone", now: 1_000 });
+    case "loading":
+      return reduce(
+        start,
+        { type: "fetchStarted" },
+        { type: "countdownDone", now: 1_000 },
+        { type: "answer", correct: true, now: 2_000 },
+        { type: "answer", correct: true, now: 3_000 }
+      );
+    case "paused":
+      return reduce(
+        start,
+        { type: "countdownDone", now: 1_000 },
+        { type: "pause", now: 2_000 }
+      );
+    case "ended":
+      return reduce(start, { type: "end" });
+  }
+};
+
+const PHASES: RoundPhase[] = [
+  "countdown",
+  "active",
+  "loading",
+  "paused",
+  "ended",
+];
+
+const ACTIONS: RoundAction[] = [
+  { type: "countdownDone", now: 5_000 },
+  { type: "answer", correct: true, now: 5_000 },
+  { type: "fetchStarted" },
+  { type: "promptsLoaded", prompts: prompts("Up"), now: 5_000 },
+  { type: "fetchFailed" },
+  { type: "pause", now: 5_000 },
+  { type: "resume", now: 5_000 },
+  { type: "restart" },
+  { type: "end" },
+];
+
+// The phase every action leads to from every phase
+const TRANSITIONS: Record<
+  RoundPhase,
+  Record<RoundAction["type"], RoundPhase>
+> = {
+  countdown: {
+    countdownDone: "active",
+    answer: "countdown",
+    fetchStarted: "countdown",
+    promptsLoaded: "countdown",
+    fetchFailed: "countdown",
+    pause: "countdown",
+    resume: "countdown",
+    restart: "countdown",
+    end: "ended",
+  },
+  active: {
+    countdownDone: "active",
+    answer: "active",
+    fetchStarted: "active",
+    promptsLoaded: "active",
+    fetchFailed: "active",
+    pause: "paused",
+    resume: "active",
+    restart: "countdown",
+    end: "ended",
+  },
+  loading: {
+    countdownDone: "loading",
+    answer: "loading",
+    fetchStarted: "loading",
+    promptsLoaded: "active",
+    fetchFailed: "loading",
+    pause: "paused",
+    resume: "loading",
+    restart: "countdown",
+    end: "ended",
+  },
+  paused: {
+    countdownDone: "paused",
+    answer: "paused",
+    fetchStarted: "paused",
+    promptsLoaded: "paused",
+    fetchFailed: "paused",
+    pause: "paused",
+    resume: "active",
+    restart: "countdown",
+    end: "ended",
+  },
+  ended: {
+    countdownDone: "ended",
+    answer: "ended",
+    fetchStarted: "ended",
+    promptsLoaded: "ended",
+    fetchFailed: "ended",
+    pause: "ended",
+    resume: "ended",
+    restart: "ended",
+    end: "ended",
+  },
+};
+
+describe("roundReducer transitions", () => {
+  for (const from of PHASES) {
+    for (const action of ACTIONS) {
+      const to = TRANSITIONS[from][action.type];
+      it(`${from} + ${action.type} → ${to}`, () => {
+        expect(roundReducer(inPhase(from), action).phase).toBe(to);
+      });
+    }
+  }
+
+  it("leaves ended rounds untouched", () => {
+    const ended = inPhase("ended");
+    for (const action of ACTIONS) {
+      expect(roundReducer(ended, action)).toBe(ended);
+    }
+  });
+});
+
+describe("roundReducer", () => {
+  it("records each answer once, with how long the prompt was shown", () => {
+    const state = reduce(
+      inPhase("active"),
+      { type: "answer", correct: true, now: 4_000 },
+      { type: "answer", correct: false, now: 6_500 }
+    );
+
+    expect(state.results).toEqual([
+      {
+        prompt: "Titanic",
+        correct: true,
+        category: "🎬 Movies",
+        difficulty: "easy",
+        timestamp: 4_000,
+        timeSpent: 3_000,
+      },
+      {
+        prompt: "Jaws",
+        correct: false,
+        category: "🎬 Movies",
+        difficulty: "easy",
+        timestamp: 6_500,
+        timeSpent: 2_500,
+      },
+    ]);
+  });
+
+  it("waits for more prompts after the last one, without recording twice", () => {
+    const loading = inPhase("loading");
+    expect(loading.results).toHaveLength(2);
+    expect(getCurrentPrompt(loading)).toBeNull();
+
+    // Answers while loading are ignored rather than scoring the last prompt
+    // again
+    const again = roundReducer(loading, {
+      type: "answer",
+      correct: true,
+      now: 3_500,
+    });
+    expect(again).toBe(loading);
+
+    const loaded = roundReducer(loading, {
+      type: "promptsLoaded",
+      prompts: prompts("Up"),
+      now: 4_000,
+    });
+    expect(getCurrentPrompt(loaded)?.text).toBe("Up");
+    expect(loaded.promptShownAt).toBe(4_000);
+  });
+
+  it("ends when the prompts run out and no more are coming", () => {
+    const state = reduce(
+      createRoundState(prompts("Titanic"), null),
+      { type: "fetchStarted" },
+      { type: "promptsLoaded", prompts: prompts("Titanic"), now: 500 },
+      { type: "countdownDone", now: 1_000 },
+      { type: "answer", correct: true, now: 2_000 }
+    );
+
+    expect(state.phase).toBe("ended");
+    expect(state.outOfPrompts).toBe(true);
+    expect(state.results).toHaveLength(1);
+  });
+
+  it("isn't out of prompts when time runs out", () => {
+    expect(roundReducer(inPhase("active"), { type: "end" }).outOfPrompts).toBe(
+      false
+    );
+  });
+
+  it("keeps loading through a failed fetch and recovers when one succeeds", () => {
+    const failed = reduce(
+      inPhase("loading"),
+      { type: "fetchFailed" },
+      { type: "fetchStarted" },
+      { type: "fetchFailed" }
+    );
+
+    expect(failed.phase).toBe("loading");
+    expect(failed.hasMorePrompts).toBe(true);
+    expect(needsMorePrompts(failed)).toBe(true);
+    expect(getFetchRetryDelayMs(failed)).toBe(2_000);
+
+    const recovered = reduce(
+      failed,
+      { type: "fetchStarted" },
+      { type: "promptsLoaded", prompts: prompts("Up"), now: 9_000 }
+    );
+    expect(getCurrentPrompt(recovered)?.text).toBe("Up");
+    expect(recovered.promptShownAt).toBe(9_000);
+    expect(getFetchRetryDelayMs(recovered)).toBe(0);
+  });
+
+  it("backs off further with every failure in a row, up to a limit", () => {
+    const delays: number[] = [];
+    let state = inPhase("active");
+    for (let i = 0; i < 6; i++) {
+      delays.push(getFetchRetryDelayMs(state));
+      state = reduce(state, { type: "fetchStarted" }, { type: "fetchFailed" });
+    }
+
+    expect(delays).toEqual([0, 1_000, 2_000, 4_000, 8_000, 10_000]);
+  });
+
+  it("starts loading straight after the countdown when there are no prompts", () => {
+    const state = reduce(
+      createRoundState([], null),
+      { type: "fetchStarted" },
+      { type: "countdownDone", now: 1_000 }
+    );
+    expect(state.phase).toBe("loading");
+  });
+
+  it("skips prompts it already has", () => {
+    const state = roundReducer(inPhase("active"), {
+      type: "promptsLoaded",
+      prompts: prompts("Jaws", "Up"),
+      now: 2_000,
+    });
+
+    expect(state.prompts.map((prompt) => prompt.text)).toEqual([
+      "Titanic",
+      "Jaws",
+      "Up",
+    ]);
+    expect(state.hasMorePrompts).toBe(true);
+  });
+
+  it("stops asking for prompts once a fetch returns nothing new", () => {
+    const state = reduce(
+      inPhase("active"),
+      { type: "fetchStarted" },
+      { type: "promptsLoaded", prompts: prompts("Jaws"), now: 2_000 }
+    );
+
+    expect(state.isFetching).toBe(false);
+    expect(state.hasMorePrompts).toBe(false);
+    expect(needsMorePrompts(state)).toBe(false);
+  });
+
+  it("doesn't count paused time towards the current prompt", () => {
+    const state = reduce(
+      inPhase("paused"),
+      { type: "resume", now: 12_000 },
+      { type: "answer", correct: true, now: 13_000 }
+    );
+
+    // Shown at 1s, paused from 2s to 12s, answered at 13s
+    expect(state.results[0].timeSpent).toBe(2_000);
+  });
+
+  it("resumes into a prompt that arrived while paused", () => {
+    const state = reduce(
+      inPhase("loading"),
+      { type: "pause", now: 4_000 },
+      { type: "promptsLoaded", prompts: prompts("Up"), now: 5_000 },
+      { type: "resume", now: 9_000 }
+    );
+
+    expect(getCurrentPrompt(state)?.text).toBe("Up");
+    expect(state.promptShownAt).toBe(9_000);
+  });
+
+  it("resumes into loading when nothing arrived while paused", () => {
+    const state = reduce(
+      inPhase("loading"),
+      { type: "pause", now: 4_000 },
+      { type: "resume", now: 5_000 }
+    );
+    expect(state.phase).toBe("loading");
+  });
+
+  it("restarts with no results and the next prompt", () => {
+    const state = reduce(
+      inPhase("active"),
+      { type: "answer", correct: true, now: 2_000 },
+      { type: "pause", now: 3_000 },
+      { type: "restart" },
+      { type: "countdownDone", now: 4_000 }
+    );
+
+    expect(state.results).toEqual([]);
+    // Jaws was on screen when the round was restarted
+    expect(state.index).toBe(2);
+    expect(state.phase).toBe("loading");
+  });
+
+  it("keeps the results when the round ends", () => {
+    const state = reduce(
+      inPhase("active"),
+      { type: "answer", correct: true, now: 2_000 },
+      { type: "end" }
+    );
+
+    expect(state.phase).toBe("ended");
+    expect(state.results.map((r) => r.prompt)).toEqual(["Titanic"]);
+  });
+});
+
+describe("skip limits", () => {
+  const limited = reduce(createRoundState(prompts("A", "B", "C"), 1), {
+    type: "countdownDone",
+    now: 0,
+  });
+
+  it("counts down the skips left", () => {
+    expect(getSkipsLeft(limited)).toBe(1);
+    const skipped = roundReducer(limited, {
+      type: "answer",
+      correct: false,
+      now: 1,
+    });
+    expect(getSkipsLeft(skipped)).toBe(0);
+  });
+
+  it("ignores skips once none are left, but still takes correct answers", () => {
+    const skipped = roundReducer(limited, {
+      type: "answer",
+      correct: false,
+      now: 1,
+    });
+
+    expect(canAnswer(skipped, false)).toBe(false);
+    expect(
+      roundReducer(skipped, { type: "answer", correct: false, now: 2 })
+    ).toBe(skipped);
+    expect(canAnswer(skipped, true)).toBe(true);
+  });
+
+  it("has no limit without maxSkips", () => {
+    expect(getSkipsLeft(inPhase("active"))).toBeNull();
+  });
+});
+
+describe("selectors", () => {
+  it("only shows a prompt while active", () => {
+    for (const phase of PHASES) {
+      expect(getCurrentPrompt(inPhase(phase)) !== null).toBe(
+        phase === "active"
+      );
+    }
+  });
+
+  it("runs the clock while active or loading", () => {
+    for (const phase of PHASES) {
+      expect(isTimerRunning(inPhase(phase))).toBe(
+        phase === "active" || phase === "loading"
+      );
+    }
+  });
+
+  it("asks for more prompts when running low, once at a time", () => {
+    const start = createRoundState(prompts("A", "B"), null);
+    expect(needsMorePrompts(start)).toBe(true);
+    expect(
+      needsMorePrompts(roundReducer(start, { type: "fetchStarted" }))
+    ).toBe(false);
+
+    const plenty = createRoundState(
+      prompts(...Array.from({ length: 20 }, (_, i) => `Prompt ${i}`)),
+      null
+    );
+    expect(needsMorePrompts(plenty)).toBe(false);
+  });
+});
@@ -0,0 +1,227 @@
+import { Difficulty } from "./promptFormat";
+import { GameResult } from "./types";
+
+// countdown → active ⇄ loading, either of which can be paused, until the
+// round has ended. "loading" means every prompt so far has been answered and
+// more are on their way.
+export type RoundPhase =
+  | "countdown"
+  | "active"
+  | "loading"
+  | "paused"
+  | "ended";
+
+export interface RoundPrompt {
+  text: string;
+  category?: string;
+  difficulty?: Difficulty;
+  hint?: string;
+}
+
+export interface RoundState {
+  phase: RoundPhase;
+  // Where resuming goes back to, checked again in case prompts arrived
+  pausedFrom: "active" | "loading" | null;
+  prompts: RoundPrompt[];
+  // The prompt on screen while active; past the end while loading
+  index: number;
+  results: GameResult[];
+  maxSkips: number | null;
+  isFetching: boolean;
+  // Cleared once the provider stops returning new prompts
+  hasMorePrompts: boolean;
+  // Failed fetches in a row, which retries back off from
+  fetchFailures: number;
+  // Set when the round ended because there was nothing left to act out
+  outOfPrompts: boolean;
+  // When the current prompt went up, and when the round was paused
+  promptShownAt: number;
+  pausedAt: number;
+}
+
+export type RoundAction =
+  | { type: "countdownDone"; now: number }
+  | { type: "answer"; correct: boolean; now: number }
+  | { type: "fetchStarted" }
+  | { type: "promptsLoaded"; prompts: RoundPrompt[]; now: number }
+  | { type: "fetchFailed" }
+  | { type: "pause"; now: number }
+  | { type: "resume"; now: number }
+  | { type: "restart" }
+  // Time's up, or the round was ended early
+  | { type: "end" };
+
+// Fetch more once this few prompts are left, so there's rarely a wait
+const PREFETCH_THRESHOLD = 10;
+const MAX_FETCH_RETRY_DELAY_MS = 10_000;
+
+export const createRoundState = (
+  prompts: RoundPrompt[],
+  maxSkips: number | null
+): RoundState => ({
+  phase: "countdown",
+  pausedFrom: null,
+  prompts,
+  index: 0,
+  results: [],
+  maxSkips,
+  isFetching: false,
+  hasMorePrompts: true,
+  fetchFailures: 0,
+  outOfPrompts: false,
+  promptShownAt: 0,
+  pausedAt: 0,
+});
+
+export const getCurrentPrompt = (state: RoundState): RoundPrompt | null =>
+  state.phase === "active" ? state.prompts[state.index] : null;
+
+export const getSkipsLeft = (state: RoundState): number | null =>
+  state.maxSkips === null
+    ? null
+    : Math.max(
+        state.maxSkips - state.results.filter((r) => !r.correct).length,
+        0
+      );
+
+export const canAnswer = (state: RoundState, correct: boolean) =>
+  state.phase === "active" && (correct || getSkipsLeft(state) !== 0);
+
+// The clock runs while waiting for prompts too, as it always has
+export const isTimerRunning = (state: RoundState) =>
+  state.phase === "active" || state.phase === "loading";
+
+export const needsMorePrompts = (state: RoundState) =>
+  state.phase !== "ended" &&
+  !state.isFetching &&
+  state.hasMorePrompts &&
+  state.prompts.length - state.index <= PREFETCH_THRESHOLD;
+
+// How long to wait before fetching again after a failure
+export const getFetchRetryDelayMs = (state: RoundState) =>
+  state.fetchFailures === 0
+    ? 0
+    : Math.min(1000 * 2 ** (state.fetchFailures - 1), MAX_FETCH_RETRY_DELAY_MS);
+
+// Where the round goes when it's ready to show a prompt
+const showNextPrompt = (
+  state: RoundState,
+  promptShownAt: number
+): RoundState => {
+  if (state.index < state.prompts.length) {
+    return { ...state, phase: "active", promptShownAt };
+  }
+  // Nothing left and nothing coming, so there's no point running the clock
+  if (!state.isFetching && !state.hasMorePrompts) {
+    return { ...state, phase: "ended", outOfPrompts: true };
+  }
+  return { ...state, phase: "loading" };
+};
+
+export const roundReducer = (
+  state: RoundState,
+  action: RoundAction
+): RoundState => {
+  switch (action.type) {
+    case "countdownDone":
+      return state.phase === "countdown"
+        ? showNextPrompt(state, action.now)
+        : state;
+
+    case "answer": {
+      if (!canAnswer(state, action.correct)) return state;
+
+      const prompt = state.prompts[state.index];
+      return showNextPrompt(
+        {
+          ...state,
+          index: state.index + 1,
+          results: [
+            ...state.results,
+            {
+              prompt: prompt.text,
+              correct: action.correct,
+              category: prompt.category,
+              difficulty: prompt.difficulty,
+              timestamp: action.now,
+              timeSpent: action.now - state.promptShownAt,
+            },
+          ],
+        },
+        action.now
+      );
+    }
+
+    case "fetchStarted":
+      return state.phase === "ended" ? state : { ...state, isFetching: true };
+
+    case "promptsLoaded": {
+      if (state.phase === "ended") return state;
+
+      const known = new Set(state.prompts.map((prompt) => prompt.text));
+      const added = action.prompts.filter((prompt) => !known.has(prompt.text));
+      const next: RoundState = {
+        ...state,
+        prompts: [...state.prompts, ...added],
+        isFetching: false,
+        hasMorePrompts: added.length > 0,
+        fetchFailures: 0,
+      };
+      return state.phase === "loading"
+        ? showNextPrompt(next, action.now)
+        : next;
+    }
+
+    case "fetchFailed":
+      // Keeps loading, so a dropped connection doesn't end the round; the
+      // fetch is retried after getFetchRetryDelayMs
+      return state.phase === "ended"
+        ? state
+        : {
+            ...state,
+            isFetching: false,
+            fetchFailures: state.fetchFailures + 1,
+          };
+
+    case "pause":
+      return state.phase === "active" || state.phase === "loading"
+        ? {
+            ...state,
+            phase: "paused",
+            pausedFrom: state.phase,
+            pausedAt: action.now,
+          }
+        : state;
+
+    case "resume": {
+      if (state.phase !== "paused") return state;
+
+      // Time spent paused doesn't count towards the current prompt, and a
+      // prompt that arrived meanwhile is only shown now
+      return showNextPrompt(
+        { ...state, pausedFrom: null },
+        state.pausedFrom === "active"
+          ? state.promptShownAt + action.now - state.pausedAt
+          : action.now
+      );
+    }
+
+    case "restart":
+      // Keep moving through the prompt list so nobody gets a prompt they've
+      // already seen
+      return state.phase === "ended"
+        ? state
+        : {
+            ...state,
+            phase: "countdown",
+            pausedFrom: null,
+            index: Math.min(state.index + 1, state.prompts.length),
+            results: [],
+          };
+
+    case "end":
+      return state.phase === "ended"
+        ? state
+        : { ...state, phase: "ended", pausedFrom: null };
+  }
+};
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRoundTimer, toSecondsLeft } from "./roundTimer";
+
+const setup = (durationMs = 60_000) => {
+  const onTick = vi.fn();
+  const onExpire = vi.fn();
+  const timer = createRoundTimer(durationMs, { onTick, onExpire });
+  return { timer, onTick, onExpire };
+};
+
+describe("createRoundTimer", () => {
+  beforeEach(() => {
+    // Node has no animation frames; stub one in so fake timers can drive it
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(performance.now()), 16)
+    );
+    vi.stubGlobal("cancelAnimationFrame", (id: number) => clearTimeout(id));
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "performance"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("counts down in whole seconds from the full duration", () => {
+    const { timer, onTick } = setup();
+
+    timer.start();
+    vi.advanceTimersByTime(999);
+    expect(onTick).not.toHaveBeenCalled();
+
+    // The next frame after the second is up
+    vi.advanceTimersByTime(16);
+    expect(onTick).toHaveBeenLastCalledWith(59);
+
+    vi.advanceTimersByTime(2_000);
+    expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([59, 58, 57]);
+    expect(timer.getRemainingMs()).toBe(60_000 - 3_015);
+  });
+
+  it("expires exactly once when time runs out", () => {
+    const { timer, onTick, onExpire } = setup(3_000);
+
+    timer.start();
+    vi.advanceTimersByTime(2_999);
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onTick).toHaveBeenLastCalledWith(0);
+
+    vi.advanceTimersByTime(10_000);
+    timer.start();
+    vi.advanceTimersByTime(10_000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps wall-clock time when frames stop arriving", () => {
+    // Hidden tabs get no animation frames at all
+    vi.stubGlobal("requestAnimationFrame", () => 0);
+    const { timer, onExpire } = setup(60_000);
+
+    timer.start();
+    vi.advanceTimersByTime(45_000);
+    expect(timer.getRemainingMs()).toBe(15_000);
+
+    vi.advanceTimersByTime(15_000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't drift when frames are late", () => {
+    // A throttled tab, with frames 1.25s apart
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(performance.now()), 1_250)
+    );
+    const { timer, onTick } = setup(10_000);
+
+    timer.start();
+    vi.advanceTimersByTime(5_000);
+    expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([9, 8, 7, 5]);
+    expect(timer.getRemainingMs()).toBe(5_000);
+  });
+
+  it("holds the remaining time while paused", () => {
+    const { timer, onTick } = setup();
+
+    timer.start();
+    vi.advanceTimersByTime(10_000);
+    timer.pause();
+    vi.advanceTimersByTime(30_000);
+    expect(timer.getRemainingMs()).toBe(50_000);
+    expect(onTick).toHaveBeenLastCalledWith(50);
+
+    timer.start();
+    vi.advanceTimersByTime(5_000);
+    expect(timer.getRemainingMs()).toBe(45_000);
+  });
+
+  it("takes time away and expires when a penalty uses up the rest", () => {
+    const { timer, onTick, onExpire } = setup(5_000);
+
+    timer.start();
+    timer.addTime(-3_000);
+    expect(timer.getRemainingMs()).toBe(2_000);
+    vi.advanceTimersByTime(16);
+    expect(onTick).toHaveBeenLastCalledWith(2);
+
+    vi.advanceTimersByTime(1_000);
+    timer.addTime(-3_000);
+    expect(timer.getRemainingMs()).toBe(0);
+    // Not until the next frame or timeout
+    expect(onExpire).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(0);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies time changes straight away while paused", () => {
+    const { timer, onTick } = setup(5_000);
+
+    timer.addTime(-3_000);
+    expect(onTick).toHaveBeenLastCalledWith(2);
+  });
+
+  it("goes back to the full duration on reset", () => {
+    const { timer, onTick, onExpire } = setup(2_000);
+
+    timer.start();
+    vi.advanceTimersByTime(2_000);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+
+    timer.reset();
+    expect(onTick).toHaveBeenLastCalledWith(2);
+    expect(timer.getRemainingMs()).toBe(2_000);
+
+    // Reset leaves the timer paused
+    vi.advanceTimersByTime(5_000);
+    expect(timer.getRemainingMs()).toBe(2_000);
+
+    timer.start();
+    vi.advanceTimersByTime(2_000);
+    expect(onExpire).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops everything once disposed", () => {
+    const { timer, onTick, onExpire } = setup(2_000);
+
+    timer.start();
+    timer.dispose();
+    vi.advanceTimersByTime(5_000);
+    expect(onTick).not.toHaveBeenCalled();
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
+
+describe("toSecondsLeft", () => {
+  it("rounds up partial seconds", () => {
+    expect(toSecondsLeft(60_000)).toBe(60);
+    expect(toSecondsLeft(59_001)).toBe(60);
+    expect(toSecondsLeft(1)).toBe(1);
+    expect(toSecondsLeft(0)).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface RoundTimer {
+  // Starts or resumes the countdown
+  start: () => void;
+  pause: () => void;
+  // Negative to take time away, e.g. as a skip penalty
+  addTime: (deltaMs: number) => void;
+  // Back to the full duration, paused
+  reset: () => void;
+  getRemainingMs: () => number;
+  // Stops all frames and timeouts for good
+  dispose: () => void;
+}
+
+interface RoundTimerCallbacks {
+  // Whenever the whole seconds left change
+  onTick: (secondsLeft: number) => void;
+  onExpire: () => void;
+}
+
+// Rounded up, so the display only reaches 0:00 when time is actually up
+export const toSecondsLeft = (remainingMs: number) =>
+  Math.ceil(remainingMs / 1000);
+
+// While running only the end time is kept, so the time left is right however
+// late frames and timeouts arrive, e.g. in a throttled background tab
+export const createRoundTimer = (
+  durationMs: number,
+  { onTick, onExpire }: RoundTimerCallbacks
+): RoundTimer => {
+  let endsAt: number | null = null;
+  let remainingMs = durationMs;
+  let secondsLeft = toSecondsLeft(durationMs);
+  let expired = false;
+  let frame = 0;
+  let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const getRemainingMs = () =>
+    endsAt === null ? remainingMs : Math.max(endsAt - performance.now(), 0);
+
+  const halt = () => {
+    remainingMs = getRemainingMs();
+    endsAt = null;
+    cancelAnimationFrame(frame);
+    clearTimeout(expiryTimer);
+  };
+
+  const update = () => {
+    const remaining = getRemainingMs();
+    const seconds = toSecondsLeft(remaining);
+    if (seconds !== secondsLeft) {
+      secondsLeft = seconds;
+      onTick(seconds);
+    }
+    if (remaining <= 0 && !expired) {
+      expired = true;
+      halt();
+      onExpire();
+    }
+  };
+
+  const loop = () => {
+    update();
+    if (endsAt !== null) frame = requestAnimationFrame(loop);
+  };
+
+  const run = () => {
+    endsAt = performance.now() + remainingMs;
+    frame = requestAnimationFrame(loop);
+    // Frames stop altogether in hidden tabs, so the round still ends on time
+    // (or as close as the browser allows) without them
+    expiryTimer = setTimeout(update, remainingMs);
+  };
+
+  return {
+    start: () => {
+      if (endsAt === null && !expired) run();
+    },
+    pause: () => {
+      if (endsAt !== null) halt();
+    },
+    addTime: (deltaMs) => {
+      const wasRunning = endsAt !== null;
+      halt();
+      remainingMs = Math.max(remainingMs + deltaMs, 0);
+      // While running, leave it to the next frame, so a skip that uses up the
+      // last seconds has been rendered by the time the round ends
+      if (wasRunning) {
+        run();
+      } else {
+        update();
+      }
+    },
+    reset: () => {
+      halt();
+      expired = false;
+      remainingMs = durationMs;
+      update();
+    },
+    getRemainingMs,
+    dispose: halt,
+  };
+};
+
+interface RoundTimerOptions {
+  onSecond?: (secondsLeft: number) => void;
+  onExpire: () => void;
+}
+
+// Counts down while `running`, rendering once per whole second
+export const useRoundTimer = (
+  durationSeconds: number,
+  running: boolean,
+  { onSecond, onExpire }: RoundTimerOptions
+) => {
+  const [secondsLeft, setSecondsLeft] = useState(durationSeconds);
+  const timer = useRef<RoundTimer | null>(null);
+  const callbacks = useRef({ onSecond, onExpire });
+
+  useEffect(() => {
+    callbacks.current = { onSecond, onExpire };
+  });
+
+  useEffect(() => {
+    const current = createRoundTimer(durationSeconds * 1000, {
+      onTick: (seconds) => {
+        setSecondsLeft(seconds);
+        callbacks.current.onSecond?.(seconds);
+      },
+      onExpire: () => callbacks.current.onExpire(),
+    });
+    timer.current = current;
+    setSecondsLeft(durationSeconds);
+    return () => {
+      current.dispose();
+      timer.current = null;
+    };
+  }, [durationSeconds]);
+
+  useEffect(() => {
+    if (running) {
+      timer.current?.start();
+    } else {
+      timer.current?.pause();
+    }
+  }, [durationSeconds, running]);
+
+  const addTime = useCallback(
+    (deltaMs: number) => timer.current?.addTime(deltaMs),
+    []
+  );
+  const reset = useCallback(() => timer.current?.reset(), []);
+
+  return { secondsLeft, addTime, reset };
+};
@@ -0,0 +1,75 @@
+import { Difficulty } from "./promptFormat";
+import { GameResult, ScoringRules } from "./types";
+
+export const DIFFICULTY_POINTS: Record<Difficulty, number> = {
+  easy: 1,
+  medium: 2,
+  hard: 3,
+};
+
+export const STREAK_LENGTH = 3;
+
+export const SKIP_TIME_PENALTY = 3;
+
+export const DEFAULT_RULES: ScoringRules = {
+  maxSkips: null,
+  skipPenalty: 0,
+  streakBonus: 0,
+  skipTimePenalty: false,
+};
+
+export interface ScoreBreakdown {
+  correctPoints: number;
+  streaks: number;
+  streakPoints: number;
+  skips: number;
+  skipPoints: number;
+  total: number;
+}
+
+export const getResultPoints = (
+  result: GameResult,
+  weightedScoring: boolean
+): number => {
+  if (!result.correct) return 0;
+  return weightedScoring ? DIFFICULTY_POINTS[result.difficulty ?? "medium"] : 1;
+};
+
+export const getScoreBreakdown = (
+  results: GameResult[],
+  weightedScoring: boolean,
+  rules: ScoringRules
+): ScoreBreakdown => {
+  let correctPoints = 0;
+  let streaks = 0;
+  let skips = 0;
+  let run = 0;
+
+  for (const result of results) {
+    if (result.correct) {
+      correctPoints += getResultPoints(result, weightedScoring);
+      run++;
+      if (run % STREAK_LENGTH === 0) streaks++;
+    } else {
+      skips++;
+      run = 0;
+    }
+  }
+
+  const streakPoints = streaks * rules.streakBonus;
+  const skipPoints = skips * rules.skipPenalty;
+  return {
+    correctPoints,
+    streaks,
+    streakPoints,
+    skips,
+    skipPoints,
+    total: correctPoints + streakPoints - skipPoints,
+  };
+};
+
+export const getScore = (
+  results: GameResult[],
+  weightedScoring: boolean,
+  rules: ScoringRules
+): number => getScoreBreakdown(results, weightedScoring, rules).total;
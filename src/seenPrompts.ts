@@ -0,0 +1,39 @@
+const STORAGE_KEY = "charader:seenPrompts";
+
+export const getSeenPrompts = (): Set<string> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return new Set(stored ? (JSON.parse(stored) as string[]) : []);
+  } catch (error) {
+    console.error("Failed to read seen prompts:", error);
+    return new Set();
+  }
+};
+
+const saveSeenPrompts = (seen: Set<string>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...seen]));
+  } catch (error) {
+    console.error("Failed to save seen prompts:", error);
+  }
+};
+
+export const markPromptsSeen = (prompts: string[]) => {
+  const seen = getSeenPrompts();
+  prompts.forEach((prompt) => seen.add(prompt));
+  saveSeenPrompts(seen);
+};
+
+export const forgetSeenPrompts = (prompts: string[]) => {
+  const seen = getSeenPrompts();
+  prompts.forEach((prompt) => seen.delete(prompt));
+  saveSeenPrompts(seen);
+};
+
+export const resetSeenPrompts = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to reset seen prompts:", error);
+  }
+};
@@ -1,16 +1,18 @@
-export function register() {
-  if ("serviceWorker" in navigator) {
-    window.addEventListener("load", () => {
-      navigator.serviceWorker
-        .register("/sw.js")
-        .then((registration) => {
-          console.log("SW registered: ", registration);
-        })
-        .catch((registrationError) => {
-          console.log("SW registration failed: ", registrationError);
-        });
-    });
-  }
+import { registerSW } from "virtual:pwa-register";
+
+interface RegisterOptions {
+  // Called when a new version is waiting, with a function that activates it
+  // and reloads the page
+  onUpdate?: (applyUpdate: () => Promise<void>) => void;
+}
+
+// The service worker itself is generated by vite-plugin-pwa at build time
+export function register({ onUpdate }: RegisterOptions = {}) {
+  const updateSW = registerSW({
+    onNeedRefresh: () => onUpdate?.(() => updateSW(true)),
+    onRegisterError: (error) =>
+      console.error("Failed to register service worker:", error),
+  });
 }
 
 export function unregister() {
@@ -0,0 +1,59 @@
+import { ControlBindings, DEFAULT_BINDINGS } from "./controls";
+import { Locale } from "./i18n";
+import { DEFAULT_ROOM_SERVER_URL } from "./rooms";
+
+export type ProviderId = "static" | "openai" | "compatible" | "mock";
+
+export interface Settings {
+  provider: ProviderId;
+  // Any endpoint speaking the OpenAI chat completions API, e.g. Ollama or
+  // llama.cpp's server
+  compatibleBaseUrl: string;
+  compatibleModel: string;
+  compatibleApiKey: string;
+  // Null follows the device's language
+  locale: Locale | null;
+  // Keyboard, gamepad and clicker buttons used during a round
+  controls: ControlBindings;
+  // Empty until a presenter screen is set up
+  presenterRoom: string;
+  // The relay from `yarn relay`, for presenter screens on other devices
+  presenterRelayUrl: string;
+  // The server from `yarn rooms`, for games across several phones
+  roomServerUrl: string;
+}
+
+const STORAGE_KEY = "charader:settings";
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: "openai",
+  compatibleBaseUrl: "http://localhost:11434/v1",
+  compatibleModel: "llama3.2",
+  compatibleApiKey: "",
+  locale: null,
+  controls: DEFAULT_BINDINGS,
+  presenterRoom: "",
+  presenterRelayUrl: "",
+  roomServerUrl: DEFAULT_ROOM_SERVER_URL,
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...(stored ? (JSON.parse(stored) as Partial<Settings>) : {}),
+    };
+  } catch (error) {
+    console.error("Failed to read settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+};
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { shuffleArray } from "./shuffle";
+
+describe("shuffleArray", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the same items without touching the original", () => {
+    const original = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = shuffleArray(original);
+
+    expect(shuffled).not.toBe(original);
+    expect(original).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(original);
+  });
+
+  it("handles empty and single-item arrays", () => {
+    expect(shuffleArray([])).toEqual([]);
+    expect(shuffleArray(["Titanic"])).toEqual(["Titanic"]);
+  });
+
+  it("swaps each position with one picked by Math.random", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    // i = 3 ↔ 0, then 2 ↔ 0, then 1 ↔ 0
+    expect(shuffleArray(["a", "b", "c", "d"])).toEqual(["b", "c", "d", "a"]);
+  });
+
+  it("produces every order about equally often", () => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 6000; i++) {
+      const order = shuffleArray(["a", "b", "c"]).join("");
+      counts.set(order, (counts.get(order) ?? 0) + 1);
+    }
+
+    expect(counts.size).toBe(6);
+    for (const count of counts.values()) {
+      expect(count).toBeGreaterThan(800);
+      expect(count).toBeLessThan(1200);
+    }
+  });
+});
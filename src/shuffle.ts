@@ -0,0 +1,9 @@
+// Fisher–Yates, returning a shuffled copy
+export const shuffleArray = <T>(array: readonly T[]): T[] => {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,51 @@
+export interface Team {
+  name: string;
+  players: string[];
+}
+
+export interface Turn {
+  teamIndex: number;
+  round: number;
+  player?: string;
+}
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+export const MAX_ROUNDS = 10;
+
+// Teams are named "Team A", "Team B" and so on, with the label translated
+export const createDefaultTeams = (count: number, label = "Team"): Team[] =>
+  Array.from({ length: count }, (_, i) => ({
+    name: `${label} ${String.fromCharCode(65 + i)}`,
+    players: [],
+  }));
+
+export const getTotalTurns = (teams: Team[], rounds: number): number =>
+  teams.length * rounds;
+
+export const getTurn = (teams: Team[], turnIndex: number): Turn => {
+  const teamIndex = turnIndex % teams.length;
+  const round = Math.floor(turnIndex / teams.length);
+  const players = teams[teamIndex].players;
+
+  return {
+    teamIndex,
+    round,
+    // Rotate through each team's players so everyone gets a turn acting
+    player: players.length > 0 ? players[round % players.length] : undefined,
+  };
+};
+
+export const getLeaders = (scores: number[]): number[] => {
+  const best = Math.max(...scores);
+  return scores.flatMap((score, i) => (score === best ? [i] : []));
+};
+
+export const getTeamScores = (teams: Team[], turnScores: number[]): number[] =>
+  turnScores.reduce(
+    (scores, score, turnIndex) => {
+      scores[turnIndex % teams.length] += score ?? 0;
+      return scores;
+    },
+    teams.map(() => 0)
+  );
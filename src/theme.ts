@@ -0,0 +1,41 @@
+export const getRandomPastelTheme = () => {
+  const themes = [
+    {
+      primary: "bg-rose-100 text-rose-800",
+      secondary: "bg-rose-600 text-white",
+      accent: "bg-rose-50",
+      border: "border-rose-200",
+      hover: "hover:bg-rose-700",
+      focus: "focus:ring-rose-500 focus:border-rose-500",
+      checkbox: "text-rose-600",
+    },
+    {
+      primary: "bg-sky-100 text-sky-800",
+      secondary: "bg-sky-600 text-white",
+      accent: "bg-sky-50",
+      border: "border-sky-200",
+      hover: "hover:bg-sky-700",
+      focus: "focus:ring-sky-500 focus:border-sky-500",
+      checkbox: "text-sky-600",
+    },
+    {
+      primary: "bg-violet-100 text-violet-800",
+      secondary: "bg-violet-600 text-white",
+      accent: "bg-violet-50",
+      border: "border-violet-200",
+      hover: "hover:bg-violet-700",
+      focus: "focus:ring-violet-500 focus:border-violet-500",
+      checkbox: "text-violet-600",
+    },
+    {
+      primary: "bg-teal-100 text-teal-800",
+      secondary: "bg-teal-600 text-white",
+      accent: "bg-teal-50",
+      border: "border-teal-200",
+      hover: "hover:bg-teal-700",
+      focus: "focus:ring-teal-500 focus:border-teal-500",
+      checkbox: "text-teal-600",
+    },
+  ];
+  return themes[Math.floor(Math.random() * themes.length)];
+};
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef } from "react";
+
+export type TiltDirection = "down" | "up";
+
+// How far (in degrees) the phone must tip away from its calibrated position
+// before a tilt counts, and how close it must come back before the next one
+export const TILT_TRIGGER_DEGREES = 35;
+export const TILT_NEUTRAL_DEGREES = 15;
+export const TILT_COOLDOWN_MS = 750;
+
+interface IOSDeviceOrientationEvent {
+  requestPermission?: () => Promise<"granted" | "denied">;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Angle of the screen above the horizon: 90 facing the ceiling, -90 facing
+// the floor, 0 held upright. Unlike raw beta/gamma it doesn't jump in landscape
+export const getScreenElevation = (beta: number, gamma: number): number =>
+  toDegrees(Math.asin(Math.cos(toRadians(beta)) * Math.cos(toRadians(gamma))));
+
+export const isTiltSupported = (): boolean =>
+  typeof window !== "undefined" && "DeviceOrientationEvent" in window;
+
+// iOS only delivers orientation events once the user grants permission
+export const requestTiltPermission = async (): Promise<boolean> => {
+  if (!isTiltSupported()) return false;
+
+  const { requestPermission } =
+    DeviceOrientationEvent as unknown as IOSDeviceOrientationEvent;
+  if (typeof requestPermission !== "function") return true;
+
+  try {
+    return (await requestPermission()) === "granted";
+  } catch (error) {
+    console.error("Failed to request orientation permission:", error);
+    return false;
+  }
+};
+
+export const useTiltControls = (
+  enabled: boolean,
+  onTilt: (direction: TiltDirection) => void
+) => {
+  const onTiltRef = useRef(onTilt);
+  const latestElevation = useRef<number | null>(null);
+  const baseline = useRef<number | null>(null);
+  const armed = useRef(true);
+  const lastTiltAt = useRef(0);
+
+  useEffect(() => {
+    onTiltRef.current = onTilt;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.beta === null || event.gamma === null) return;
+
+      const elevation = getScreenElevation(event.beta, event.gamma);
+      latestElevation.current = elevation;
+      if (baseline.current === null) return;
+
+      const delta = elevation - baseline.current;
+
+      // Wait for the phone to return to neutral so one tilt counts once
+      if (!armed.current) {
+        if (Math.abs(delta) < TILT_NEUTRAL_DEGREES) {
+          armed.current = true;
+        }
+        return;
+      }
+
+      const now = performance.now();
+      if (
+        Math.abs(delta) >= TILT_TRIGGER_DEGREES &&
+        now - lastTiltAt.current >= TILT_COOLDOWN_MS
+      ) {
+        armed.current = false;
+        lastTiltAt.current = now;
+        onTiltRef.current(delta < 0 ? "down" : "up");
+      }
+    };
+
+    window.addEventListener("deviceorientation", handleOrientation);
+    return () =>
+      window.removeEventListener("deviceorientation", handleOrientation);
+  }, [enabled]);
+
+  // Treat the current position as neutral; assume upright if no reading yet
+  const calibrate = useCallback(() => {
+    baseline.current = latestElevation.current ?? 0;
+    armed.current = true;
+  }, []);
+
+  return { calibrate };
+};
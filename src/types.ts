@@ -0,0 +1,57 @@
+import { Locale } from "./i18n";
+import { Difficulty } from "./promptFormat";
+import { Team } from "./teams";
+
+export interface Category {
+  id: string;
+  name: string;
+  prompt: string;
+}
+
+export interface PromptOption {
+  text: string;
+  // Options without a difficulty count as medium
+  difficulty?: Difficulty;
+  // Hidden in family mode
+  mature?: boolean;
+  // Only generated prompts come with one, to help the actor along
+  hint?: string;
+}
+
+export interface ScoringRules {
+  // Skips allowed per round, or null for no limit
+  maxSkips: number | null;
+  // Points taken off for every skip
+  skipPenalty: number;
+  // Extra points for every STREAK_LENGTH correct answers in a row
+  streakBonus: number;
+  // Each skip also takes SKIP_TIME_PENALTY seconds off the clock
+  skipTimePenalty: boolean;
+}
+
+export interface GameConfig {
+  duration: number;
+  categories: Category[];
+  // Empty when playing solo; otherwise turns rotate between these teams
+  teams: Team[];
+  rounds: number;
+  tiltControls: boolean;
+  // Leave out to mix all difficulties
+  difficulty?: Difficulty;
+  // Score harder prompts higher than easy ones
+  weightedScoring: boolean;
+  rules: ScoringRules;
+  // Keeps prompts suitable for children
+  familyMode: boolean;
+  locale: Locale;
+}
+
+export interface GameResult {
+  prompt: string;
+  correct: boolean;
+  category?: string;
+  difficulty?: Difficulty;
+  // When the prompt was answered, and how long (ms) it was on screen
+  timestamp: number;
+  timeSpent: number;
+}
@@ -4,16 +4,30 @@ import { VitePWA } from "vite-plugin-pwa";
 
 // https://vite.dev/config/
 export default defineConfig({
+  server: {
+    proxy: {
+      // The prompt server from `yarn server`
+      "/api": "http://localhost:8787",
+      // The presenter relay from `yarn relay`
+      "/presenter": { target: "ws://localhost:8788", ws: true },
+      // The room server from `yarn rooms`
+      "/room": { target: "ws://localhost:8789", ws: true },
+    },
+  },
   plugins: [
     react(),
     VitePWA({
-      registerType: "autoUpdate",
-      includeAssets: ["favicon.ico", "apple-touch-icon.png", "masked-icon.svg"],
+      // Ask before reloading, so an update never interrupts a round
+      registerType: "prompt",
+      includeAssets: ["vite.svg", "apple-touch-icon.png"],
       manifest: {
-        name: "Charader",
+        name: "Charader - Charades Game",
         short_name: "Charader",
         description: "A fun charades game",
+        start_url: "/",
+        display: "standalone",
         theme_color: "#7c3aed",
+        background_color: "#f5f3ff",
         icons: [
           {
             src: "/icon-192x192.png",
@@ -27,6 +41,12 @@ export default defineConfig({
           },
         ],
       },
+      workbox: {
+        // The app handles routing itself, so any page works offline; the
+        // prompt server obviously doesn't
+        navigateFallback: "/index.html",
+        navigateFallbackDenylist: [/^\/api\//],
+      },
     }),
   ],
 });
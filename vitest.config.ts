@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts, which only matters for the app build
+export default defineConfig({
+  test: {
+    // e2e/ runs against a production build with `yarn test:offline`
+    include: ["src/**/*.test.{ts,tsx}", "server/**/*.test.ts"],
+  },
+});